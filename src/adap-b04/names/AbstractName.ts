@@ -23,7 +23,6 @@ export abstract class AbstractName implements Name {
       );
     }
     this.delimiter = delimiter;
-    this.checkInvariant();
   }
 
   // -------- Cloneable --------
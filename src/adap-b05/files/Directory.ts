@@ -1,32 +1,113 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
 import { Node } from "./Node";
+import { File } from "./File";
+import { Link } from "./Link";
+import { NodeExistsException } from "./NodeExistsException";
+import { NodeNotFoundException } from "./NodeNotFoundException";
+import { NotADirectoryException } from "./NotADirectoryException";
+import { LinkLoopException } from "./LinkLoopException";
+import { Name } from "../../adap-b06/names/Name";
+import { NameEscaping } from "../../adap-b06/names/NameEscaping";
+import { NamePattern } from "../../adap-b06/names/NamePattern";
+import { StringName } from "../../adap-b06/names/StringName";
 
 export class Directory extends Node {
-  protected childNodes: Set<Node> = new Set<Node>();
+  // child nodes by base name; base names are unique within a directory
+  protected childNodes: Map<string, Node> = new Map<string, Node>();
+  // child nodes with an empty base name, which only nodes in an invalid state have;
+  // they are kept apart, so that they neither collide nor can be looked up by name
+  protected unnamedNodes: Set<Node> = new Set<Node>();
 
   constructor(bn: string, pn: Directory) {
     super(bn, pn);
   }
 
   public hasChildNode(cn: Node): boolean {
-    return this.childNodes.has(cn);
+    if (cn == null) {
+      return false;
+    }
+    const bn = cn.getBaseName();
+    return bn === "" ? this.unnamedNodes.has(cn) : this.childNodes.get(bn) === cn;
   }
 
+  /**
+   * Adds cn under its base name; adding a child node again does nothing.
+   * Throws NodeExistsException if another node has that name already.
+   * A node with an empty base name is added without a name; see findNodes().
+   */
   public addChildNode(cn: Node): void {
-    this.childNodes.add(cn);
+    const bn = cn.getBaseName();
+    if (bn === "") {
+      this.unnamedNodes.add(cn);
+      return;
+    }
+    const other = this.getChild(bn);
+    if (other != null && other !== cn) {
+      throw new NodeExistsException("node exists already: " + bn, other.getFullName().asString());
+    }
+    this.childNodes.set(bn, cn);
   }
 
   public removeChildNode(cn: Node): void {
-    this.childNodes.delete(cn); // Yikes! Should have been called remove
+    if (this.hasChildNode(cn)) {
+      this.unnamedNodes.delete(cn);
+      this.childNodes.delete(cn.getBaseName()); // Yikes! Should have been called remove
+    }
+  }
+
+  /**
+   * Returns the child node with base name bn, or null if there is none.
+   */
+  public getChild(bn: string): Node | null {
+    return this.childNodes.get(bn) ?? null;
+  }
+
+  /**
+   * Returns the child nodes sorted by base name, optionally only those whose base name
+   * matches filter, if it is a NamePattern, or for which filter returns true.
+   */
+  public list(filter?: NamePattern | ((node: Node) => boolean)): Node[] {
+    const result: Node[] = [];
+    for (const child of this.getChildNodes()) {
+      if (filter == null || (filter instanceof NamePattern ? this.matchesBaseName(child.getBaseName(), filter) : filter(child))) {
+        result.push(child);
+      }
+    }
+    return result.sort((a, b) => Directory.compareBaseNames(a.getBaseName(), b.getBaseName()));
+  }
+
+  /**
+   * Creates and returns an empty subdirectory bn, like mkdir.
+   * Throws NodeExistsException if a node of that name exists already.
+   */
+  public mkdir(bn: string): Directory {
+    return new Directory(bn, this);
+  }
+
+  /**
+   * Returns the file bn, created empty if there is no node of that name, like touch.
+   * Throws NodeExistsException if a node of that name exists that is no file.
+   */
+  public touch(bn: string): File {
+    const existing = this.getChild(bn);
+    if (existing instanceof File) {
+      return existing;
+    }
+    return new File(bn, this);
+  }
+
+  protected override getChildNodes(): Node[] {
+    return [...this.childNodes.values(), ...this.unnamedNodes];
   }
 
   /**
    * Returns all nodes in this directory's subtree
-   * whose base name equals bn.
+   * whose base name equals bn, or matches bn if it is a NamePattern.
    *
    * Uses Node.findNodes for this directory itself,
    * then recurses into child nodes.
    */
-  public override findNodes(bn: string): Set<Node> {
+  public override findNodes(bn: string | NamePattern): Set<Node> {
     const result = new Set<Node>();
 
     // 1) matches at this directory (and invariant checks)
@@ -36,7 +117,7 @@ export class Directory extends Node {
     }
 
     // 2) recurse into all child nodes
-    for (const child of this.childNodes) {
+    for (const child of this.getChildNodes()) {
       const childMatches = child.findNodes(bn);
       for (const n of childMatches) {
         result.add(n);
@@ -45,4 +126,82 @@ export class Directory extends Node {
 
     return result;
   }
+
+  /**
+   * Returns the node that name refers to, starting at this directory.
+   * A string is read as a masked name with delimiter '/'.
+   *
+   * A name starting with an empty component (like "/usr/bin") is absolute and resolved
+   * from the root; other names are relative to this directory. Components "." and ".."
+   * refer to the current and the parent directory, empty components are skipped. Links
+   * on the way are followed; a link named by the last component only if followLinks is set.
+   *
+   * Error handling:
+   *  - NodeNotFoundException if a component names no child node or a link has no target
+   *  - NotADirectoryException if a component other than the last names no directory
+   *  - LinkLoopException if links refer to each other in a cycle
+   */
+  public resolve(name: Name | string, followLinks: boolean = true): Node {
+    if (name == null) {
+      throw new IllegalArgumentException("name must not be null");
+    }
+
+    const path: Name = typeof name === "string" ? new StringName(name, "/") : name;
+    const components = NameEscaping.getRawComponents(path);
+    const absolute = components.length > 0 && components[0] === "";
+
+    let current: Node = absolute ? this.getRoot() : this;
+    for (let i = absolute ? 1 : 0; i < components.length; i++) {
+      const c = components[i];
+      if (c === "" || c === ".") {
+        continue;
+      }
+
+      const dir = Directory.toDirectory(current, path);
+      if (c === "..") {
+        current = dir.getParentNode();
+        continue;
+      }
+
+      const child = dir.getChild(c);
+      if (child == null) {
+        throw new NodeNotFoundException("no such node: " + c, path.asString());
+      }
+      current = child;
+    }
+
+    return followLinks ? Directory.follow(current, path) : current;
+  }
+
+  /** Orders base names by UTF-16 code units, independent of locale */
+  protected static compareBaseNames(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /** Returns node as directory, following links, or throws NotADirectoryException */
+  protected static toDirectory(node: Node, path: Name): Directory {
+    const target = Directory.follow(node, path);
+    if (!(target instanceof Directory)) {
+      throw new NotADirectoryException("not a directory: " + target.getBaseName(), path.asString());
+    }
+    return target;
+  }
+
+  /** Returns the final target of node if it is a link, else node */
+  protected static follow(node: Node, path: Name): Node {
+    if (!(node instanceof Link)) {
+      return node;
+    }
+    try {
+      return node.getResolvedTarget();
+    } catch (e) {
+      if (e instanceof LinkLoopException) {
+        throw new LinkLoopException(e.message + ": " + node.getBaseName(), path.asString(), e);
+      }
+      if (e instanceof NodeNotFoundException) {
+        throw new NodeNotFoundException(e.message + ": " + node.getBaseName(), path.asString(), e);
+      }
+      throw e;
+    }
+  }
 }
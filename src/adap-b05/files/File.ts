@@ -1,54 +1,176 @@
 import { Node } from "./Node";
 import { Directory } from "./Directory";
-import { MethodFailedException } from "../common/MethodFailedException";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { InvalidStateException } from "../common/InvalidStateException";
 
-enum FileState {
+export enum FileState {
     OPEN,
     CLOSED,
-    DELETED        
+    DELETED
 };
 
+/**
+ * How a file is opened:
+ *  - READ: reading only
+ *  - WRITE: reading and writing at the cursor; the content is kept, see truncate()
+ *  - APPEND: writing only, always at the end of the file
+ */
+export enum FileMode {
+    READ,
+    WRITE,
+    APPEND
+};
+
+/**
+ * An in-memory file: content in a growable buffer, read and written at a cursor.
+ *
+ * A file starts CLOSED and empty. Content can only be read or changed while the file
+ * is OPEN, in a mode that allows it; its size is known unless the file is DELETED.
+ * A deleted file is removed from its directory and can't be used anymore.
+ */
 export class File extends Node {
 
+    private static readonly INITIAL_CAPACITY = 16;
+
     protected state: FileState = FileState.CLOSED;
+    protected mode: FileMode = FileMode.READ;
+    protected position: number = 0;
+
+    // content is data[0..size); the buffer grows by doubling
+    protected data: Int8Array = new Int8Array(File.INITIAL_CAPACITY);
+    protected size: number = 0;
 
     constructor(baseName: string, parent: Directory) {
         super(baseName, parent);
     }
 
-    public open(): void {
-        // do something
+    /**
+     * Opens this file in mode with the cursor at the start.
+     */
+    public open(mode: FileMode = FileMode.READ): void {
+        this.assertState(FileState.CLOSED, "open");
+        this.state = FileState.OPEN;
+        this.mode = mode;
+        this.position = 0;
     }
 
+    /**
+     * Reads up to noBytes bytes at the cursor and moves it behind them;
+     * returns fewer bytes at the end of the file.
+     */
     public read(noBytes: number): Int8Array {
-        let result: Int8Array = new Int8Array(noBytes);
-        // do something
-
-        let tries: number = 0;
-        for (let i: number = 0; i < noBytes; i++) {
-            try {
-                result[i] = this.readNextByte();
-            } catch(ex) {
-                tries++;
-                if (ex instanceof MethodFailedException) {
-                    // Oh no! What @todo?!
-                }
-            }
-        }
+        IllegalArgumentException.assert(Number.isInteger(noBytes) && noBytes >= 0, "noBytes must be a non-negative integer");
+        this.assertState(FileState.OPEN, "read");
+        IllegalArgumentException.assert(this.mode !== FileMode.APPEND, "file is not open for reading");
 
+        const start = Math.min(this.position, this.size);
+        const end = Math.min(start + noBytes, this.size);
+        const result = this.data.slice(start, end);
+        this.position = Math.max(this.position, end);
         return result;
     }
 
-    protected readNextByte(): number {
-        return 0; // @todo
+    /**
+     * Writes bytes at the cursor, or at the end in APPEND mode, and moves the cursor behind
+     * them. Writing behind the end fills the gap with zeros.
+     */
+    public write(bytes: Int8Array): void {
+        IllegalArgumentException.assert(bytes != null, "bytes must not be null");
+        this.assertState(FileState.OPEN, "write");
+        IllegalArgumentException.assert(this.mode !== FileMode.READ, "file is not open for writing");
+
+        const start = this.mode === FileMode.APPEND ? this.size : this.position;
+        const end = start + bytes.length;
+        this.ensureCapacity(end);
+        this.data.fill(0, this.size, Math.max(this.size, start));
+        this.data.set(bytes, start);
+        this.size = Math.max(this.size, end);
+        this.position = end;
+        this.checkInvariant();
+    }
+
+    /**
+     * Moves the cursor to position, which may lie behind the end of the file.
+     */
+    public seek(position: number): void {
+        IllegalArgumentException.assert(Number.isInteger(position) && position >= 0, "position must be a non-negative integer");
+        this.assertState(FileState.OPEN, "seek");
+        this.position = position;
+    }
+
+    public getPosition(): number {
+        this.assertState(FileState.OPEN, "getPosition");
+        return this.position;
+    }
+
+    /**
+     * Cuts the content to size bytes or extends it with zeros; the cursor stays.
+     */
+    public truncate(size: number): void {
+        IllegalArgumentException.assert(Number.isInteger(size) && size >= 0, "size must be a non-negative integer");
+        this.assertState(FileState.OPEN, "truncate");
+        IllegalArgumentException.assert(this.mode !== FileMode.READ, "file is not open for writing");
+
+        this.ensureCapacity(size);
+        this.data.fill(0, this.size, size);
+        this.size = size;
+        this.checkInvariant();
+    }
+
+    public getSize(): number {
+        IllegalArgumentException.assert(this.state !== FileState.DELETED, "file is deleted");
+        return this.size;
     }
 
     public close(): void {
-        // do something
+        this.assertState(FileState.OPEN, "close");
+        this.state = FileState.CLOSED;
+    }
+
+    /**
+     * Removes this file from its directory and discards its content, closing it if needed.
+     */
+    public delete(): void {
+        IllegalArgumentException.assert(this.state !== FileState.DELETED, "file is deleted already");
+        this.parentNode.removeChildNode(this);
+        this.state = FileState.DELETED;
+        this.data = new Int8Array(0);
+        this.size = 0;
+        this.position = 0;
+    }
+
+    public getFileState(): FileState {
+        return this.doGetFileState();
     }
 
     protected doGetFileState(): FileState {
         return this.state;
     }
 
-}
\ No newline at end of file
+    protected assertState(expected: FileState, operation: string): void {
+        IllegalArgumentException.assert(this.state === expected, operation + " needs file to be " + FileState[expected] + ", but it is " + FileState[this.state]);
+    }
+
+    protected ensureCapacity(capacity: number): void {
+        if (capacity <= this.data.length) {
+            return;
+        }
+        let length = Math.max(this.data.length, File.INITIAL_CAPACITY);
+        while (length < capacity) {
+            length *= 2;
+        }
+        const data = new Int8Array(length);
+        data.set(this.data.subarray(0, this.size));
+        this.data = data;
+    }
+
+    /**
+     * Class invariant for files, in addition to the node invariant:
+     *  - the content fits into the buffer
+     */
+    protected override checkInvariant(): void {
+        super.checkInvariant();
+        InvalidStateException.assert(this.size >= 0 && this.size <= this.data.length, "File invariant violated: size out of buffer");
+    }
+
+}
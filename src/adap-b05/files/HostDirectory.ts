@@ -0,0 +1,103 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { ServiceFailureException } from "../common/ServiceFailureException";
+import { Node } from "./Node";
+import { Directory } from "./Directory";
+import { HostFile } from "./HostFile";
+import { HostLink } from "./HostLink";
+import { NamePattern } from "../../adap-b06/names/NamePattern";
+
+export interface HostMountOptions {
+  // write file content to disk on every change; default false
+  writeThrough?: boolean;
+}
+
+/**
+ * A HostDirectory mirrors a directory on the local disk into the node tree.
+ *
+ * Entries are read on first use, that is on findNodes(), list(), getChild() or when adding
+ * a node, and become HostDirectory, HostFile and HostLink nodes for directories, regular
+ * files and symbolic links; other entries are skipped. Changes to the tree itself stay in
+ * memory; with writeThrough, changes to file content go to disk.
+ *
+ * The directory a HostDirectory is created for is its mount root: links are resolved
+ * within the mounted tree, see HostLink.
+ */
+export class HostDirectory extends Directory {
+  protected hostPath: string;
+  protected options: Required<HostMountOptions>;
+  protected mountRoot: HostDirectory = this;
+  protected loaded: boolean = false;
+
+  constructor(bn: string, pn: Directory, hostPath: string, options: HostMountOptions = {}) {
+    super(bn, pn);
+    if (hostPath == null) {
+      throw new IllegalArgumentException("host path must not be null");
+    }
+    this.hostPath = path.resolve(hostPath);
+    this.options = { writeThrough: options.writeThrough ?? false };
+  }
+
+  public getHostPath(): string {
+    return this.hostPath;
+  }
+
+  public getMountRoot(): HostDirectory {
+    return this.mountRoot;
+  }
+
+  public isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  public override findNodes(bn: string | NamePattern): Set<Node> {
+    this.load();
+    return super.findNodes(bn);
+  }
+
+  public override getChild(bn: string): Node | null {
+    this.load();
+    return super.getChild(bn);
+  }
+
+  public override list(filter?: NamePattern | ((node: Node) => boolean)): Node[] {
+    this.load();
+    return super.list(filter);
+  }
+
+  /**
+   * Reads the entries of the host directory into child nodes, once.
+   */
+  protected load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(this.hostPath, { withFileTypes: true });
+    } catch (e) {
+      this.loaded = false;
+      throw new ServiceFailureException("could not read host directory " + this.hostPath + ": " + (e as Error).message);
+    }
+
+    for (const entry of entries) {
+      this.createChildNode(entry);
+    }
+  }
+
+  protected createChildNode(entry: fs.Dirent): void {
+    const hostPath = path.join(this.hostPath, entry.name);
+    if (entry.isSymbolicLink()) {
+      new HostLink(entry.name, this, hostPath, this.mountRoot);
+    } else if (entry.isDirectory()) {
+      const child = new HostDirectory(entry.name, this, hostPath, this.options);
+      child.mountRoot = this.mountRoot;
+    } else if (entry.isFile()) {
+      new HostFile(entry.name, this, hostPath, this.options.writeThrough);
+    }
+  }
+}
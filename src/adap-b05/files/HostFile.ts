@@ -0,0 +1,95 @@
+import * as fs from "fs";
+
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { ServiceFailureException } from "../common/ServiceFailureException";
+import { Directory } from "./Directory";
+import { File, FileMode, FileState } from "./File";
+
+/**
+ * A HostFile is a File whose content is read from a file on the local disk, when it is
+ * first opened or asked for its size. With writeThrough, every write and truncate stores
+ * the whole content back to disk and delete() removes the file on disk too; otherwise
+ * changes stay in memory.
+ */
+export class HostFile extends File {
+  protected hostPath: string;
+  protected writeThrough: boolean;
+  protected loaded: boolean = false;
+
+  constructor(bn: string, pn: Directory, hostPath: string, writeThrough: boolean = false) {
+    super(bn, pn);
+    IllegalArgumentException.assert(hostPath != null, "host path must not be null");
+    this.hostPath = hostPath;
+    this.writeThrough = writeThrough;
+  }
+
+  public getHostPath(): string {
+    return this.hostPath;
+  }
+
+  public isWriteThrough(): boolean {
+    return this.writeThrough;
+  }
+
+  public override open(mode: FileMode = FileMode.READ): void {
+    this.assertState(FileState.CLOSED, "open");
+    this.load();
+    super.open(mode);
+  }
+
+  public override write(bytes: Int8Array): void {
+    super.write(bytes);
+    this.flush();
+  }
+
+  public override truncate(size: number): void {
+    super.truncate(size);
+    this.flush();
+  }
+
+  public override getSize(): number {
+    if (this.state !== FileState.DELETED) {
+      this.load();
+    }
+    return super.getSize();
+  }
+
+  public override delete(): void {
+    super.delete();
+    if (this.writeThrough) {
+      this.doHostOperation("delete", () => fs.rmSync(this.hostPath, { force: true }));
+    }
+  }
+
+  /**
+   * Reads the content from disk, once.
+   */
+  protected load(): void {
+    if (this.loaded) {
+      return;
+    }
+    const content = this.doHostOperation("read", () => fs.readFileSync(this.hostPath));
+    this.ensureCapacity(content.length);
+    this.data.set(new Int8Array(content.buffer, content.byteOffset, content.length));
+    this.size = content.length;
+    this.loaded = true;
+    this.checkInvariant();
+  }
+
+  /**
+   * Writes the content to disk if this file writes through.
+   */
+  protected flush(): void {
+    if (this.writeThrough) {
+      this.doHostOperation("write", () => fs.writeFileSync(this.hostPath, this.data.subarray(0, this.size)));
+    }
+  }
+
+  protected doHostOperation<T>(operation: string, body: () => T): T {
+    try {
+      return body();
+    } catch (e) {
+      throw new ServiceFailureException("could not " + operation + " host file " + this.hostPath + ": " + (e as Error).message);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { ServiceFailureException } from "../common/ServiceFailureException";
+import { Node } from "./Node";
+import { Link } from "./Link";
+import { HostDirectory } from "./HostDirectory";
+import { NodeNotFoundException } from "./NodeNotFoundException";
+import { NotADirectoryException } from "./NotADirectoryException";
+import { Name } from "../../adap-b06/names/Name";
+import { StringArrayName } from "../../adap-b06/names/StringArrayName";
+
+/**
+ * A HostLink mirrors a symbolic link on the local disk. Its target is looked up on first
+ * use, as the node under the link's target path in the mounted tree. Links pointing
+ * outside the mount root or to missing entries have no target.
+ */
+export class HostLink extends Link {
+  protected hostPath: string;
+  protected mountRoot: HostDirectory;
+  protected targetLookedUp: boolean = false;
+
+  constructor(bn: string, pn: HostDirectory, hostPath: string, mountRoot: HostDirectory) {
+    super(bn, pn);
+    IllegalArgumentException.assert(hostPath != null, "host path must not be null");
+    IllegalArgumentException.assert(mountRoot != null, "mount root must not be null");
+    this.hostPath = hostPath;
+    this.mountRoot = mountRoot;
+  }
+
+  public getHostPath(): string {
+    return this.hostPath;
+  }
+
+  public override getTargetNode(): Node | null {
+    if (!this.targetLookedUp) {
+      // set first, so that a target path leading through this link finds no target
+      this.targetLookedUp = true;
+      try {
+        this.targetNode = this.lookupTargetNode();
+      } catch (e) {
+        this.targetLookedUp = false;
+        throw e;
+      }
+    }
+    return this.targetNode;
+  }
+
+  public override setTargetNode(target: Node): void {
+    this.targetLookedUp = true;
+    super.setTargetNode(target);
+  }
+
+  /**
+   * Returns the link's host target path as node of the mounted tree, or null.
+   */
+  protected lookupTargetNode(): Node | null {
+    let target: string;
+    try {
+      target = fs.readlinkSync(this.hostPath);
+    } catch (e) {
+      throw new ServiceFailureException("could not read host link " + this.hostPath + ": " + (e as Error).message);
+    }
+
+    const absolute = path.resolve(path.dirname(this.hostPath), target);
+    const relative = path.relative(this.mountRoot.getHostPath(), absolute);
+    if (relative === ".." || relative.startsWith(".." + path.sep) || path.isAbsolute(relative)) {
+      return null;
+    }
+    if (relative === "") {
+      return this.mountRoot;
+    }
+
+    let name: Name = new StringArrayName([], "/");
+    for (const c of relative.split(path.sep)) {
+      if (c !== "") {
+        name = name.appendRaw(c);
+      }
+    }
+    try {
+      return this.mountRoot.resolve(name, false);
+    } catch (e) {
+      if (e instanceof NodeNotFoundException || e instanceof NotADirectoryException) {
+        return null;
+      }
+      throw e;
+    }
+  }
+}
@@ -1,6 +1,13 @@
 import { Node } from "./Node";
 import { Directory } from "./Directory";
-
+import { NodeNotFoundException } from "./NodeNotFoundException";
+import { LinkLoopException } from "./LinkLoopException";
+
+/**
+ * A Link is a directory entry with a name of its own that refers to another node.
+ * getBaseName() and rename() apply to the link itself, not to its target.
+ * Path resolution follows links, see Directory.resolve().
+ */
 export class Link extends Node {
 
     protected targetNode: Node | null = null;
@@ -21,18 +28,28 @@ export class Link extends Node {
         this.targetNode = target;
     }
 
-    public getBaseName(): string {
-        const target = this.ensureTargetNode(this.targetNode);
-        return target.getBaseName();
-    }
-
-    public rename(bn: string): void {
-        const target = this.ensureTargetNode(this.targetNode);
-        target.rename(bn);
+    /**
+     * Returns the node this link finally refers to, following links to links.
+     * Throws NodeNotFoundException for a link without target and LinkLoopException
+     * if the links form a cycle.
+     */
+    public getResolvedTarget(): Node {
+        return this.ensureTargetNode(this.getTargetNode());
     }
 
     protected ensureTargetNode(target: Node | null): Node {
-        const result: Node = this.targetNode as Node;
+        const visited = new Set<Link>([this]);
+        let result: Node | null = target;
+        while (result instanceof Link) {
+            if (visited.has(result)) {
+                throw new LinkLoopException("links form a cycle");
+            }
+            visited.add(result);
+            result = result.getTargetNode();
+        }
+        if (result == null) {
+            throw new NodeNotFoundException("link has no target");
+        }
         return result;
     }
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Exception } from "../common/Exception";
+import { PathException } from "./PathException";
+
+/**
+ * A LinkLoopException signals that path resolution followed links in a cycle.
+ * getPath() returns the path that failed to resolve.
+ */
+export class LinkLoopException extends PathException {
+
+    constructor(m: string, path: string | null = null, t?: Exception) {
+        super(m, path, t);
+    }
+
+}
@@ -2,13 +2,17 @@ import { IllegalArgumentException } from "../common/IllegalArgumentException";
 import { InvalidStateException } from "../common/InvalidStateException";
 import { ServiceFailureException } from "../common/ServiceFailureException";
 
-import { Name } from "../names/Name";
+import { Name } from "../../adap-b06/names/Name";
+import { NamePattern } from "../../adap-b06/names/NamePattern";
 import { Directory } from "./Directory";
 
 export class Node {
   protected baseName: string = "";
   protected parentNode: Directory;
 
+  // full name cache; reset for this node and its subtree by move() and rename()
+  protected fullName: Name | null = null;
+
   constructor(bn: string, pn: Directory) {
     this.doSetBaseName(bn);
     this.parentNode = pn; // why oh why do I have to set this
@@ -20,16 +24,36 @@ export class Node {
     this.parentNode.addChildNode(this);
   }
 
+  /**
+   * Moves this node into directory to.
+   * Throws NodeExistsException if to has another node of the same base name, and
+   * IllegalArgumentException if to is this node or lies below it.
+   */
   public move(to: Directory): void {
-    this.parentNode.removeChildNode(this);
+    for (let d: Node = to; ; d = d.getParentNode()) {
+      IllegalArgumentException.assert(d !== this, "cannot move a node into its own subtree");
+      if (d.getParentNode() === d) {
+        break;
+      }
+    }
     to.addChildNode(this);
-    this.parentNode = to;
+    if (to !== this.parentNode) {
+      this.parentNode.removeChildNode(this);
+      this.parentNode = to;
+      this.invalidateFullName();
+    }
   }
 
+  /**
+   * Returns the absolute name of this node, e.g. "/usr/bin/ls" with delimiter '/'.
+   * The name is immutable and computed once until this node or one of its
+   * ancestors is moved or renamed.
+   */
   public getFullName(): Name {
-    const result: Name = this.parentNode.getFullName();
-    result.append(this.getBaseName());
-    return result;
+    if (this.fullName == null) {
+      this.fullName = this.parentNode.getFullName().appendRaw(this.getBaseName());
+    }
+    return this.fullName;
   }
 
   public getBaseName(): string {
@@ -40,18 +64,58 @@ export class Node {
     return this.baseName;
   }
 
+  /**
+   * Changes the base name of this node; it is kept if the parent directory has
+   * another node of the new name, and NodeExistsException is thrown.
+   */
   public rename(bn: string): void {
+    const oldName = this.getBaseName();
+    this.parentNode.removeChildNode(this);
     this.doSetBaseName(bn);
+    try {
+      this.parentNode.addChildNode(this);
+    } catch (e) {
+      this.doSetBaseName(oldName);
+      this.parentNode.addChildNode(this);
+      throw e;
+    }
+    this.invalidateFullName();
   }
 
   protected doSetBaseName(bn: string): void {
     this.baseName = bn;
   }
 
+  /**
+   * Discards the cached full name of this node and its subtree.
+   */
+  protected invalidateFullName(): void {
+    this.fullName = null;
+    for (const child of this.getChildNodes()) {
+      child.invalidateFullName();
+    }
+  }
+
+  /** Returns the nodes below this one; none, unless this is a directory */
+  protected getChildNodes(): Node[] {
+    return [];
+  }
+
   public getParentNode(): Directory {
     return this.parentNode;
   }
 
+  /**
+   * Returns the root directory of the tree this node belongs to.
+   */
+  public getRoot(): Directory {
+    let result: Directory = this.parentNode;
+    while (result.getParentNode() !== result) {
+      result = result.getParentNode();
+    }
+    return result;
+  }
+
   /**
    * Class invariant for "normal" nodes (non-root):
    *  - parentNode must not be null/undefined
@@ -74,9 +138,10 @@ export class Node {
 
   /**
    * Returns all nodes in the tree that match bn.
+   * bn is either an exact base name or a NamePattern matched against the base name.
    *
    * For a non-directory node, this is either:
-   *  - { this } if this.getBaseName() === bn
+   *  - { this } if this.getBaseName() matches bn
    *  - empty set otherwise
    *
    * Precondition:
@@ -86,7 +151,7 @@ export class Node {
    *  - If the node is in an invalid state (violates invariant),
    *    throw a ServiceFailureException with an InvalidStateException as trigger.
    */
-  public findNodes(bn: string): Set<Node> {
+  public findNodes(bn: string | NamePattern): Set<Node> {
     if (bn == null) {
       throw new IllegalArgumentException("basename must not be null");
     }
@@ -99,7 +164,7 @@ export class Node {
       this.checkInvariant();
 
       const result = new Set<Node>();
-      if (myBaseName === bn) {
+      if (this.matchesBaseName(myBaseName, bn)) {
         result.add(this);
       }
       return result;
@@ -114,4 +179,11 @@ export class Node {
       throw e;
     }
   }
+
+  protected matchesBaseName(baseName: string, bn: string | NamePattern): boolean {
+    if (bn instanceof NamePattern) {
+      return bn.matchesRaw([baseName]);
+    }
+    return baseName === bn;
+  }
 }
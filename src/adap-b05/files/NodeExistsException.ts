@@ -0,0 +1,14 @@
+import { Exception } from "../common/Exception";
+import { PathException } from "./PathException";
+
+/**
+ * A NodeExistsException signals that a directory already holds another node under a base name.
+ * getPath() returns the full name of the node that is in the way.
+ */
+export class NodeExistsException extends PathException {
+
+    constructor(m: string, path: string | null = null, t?: Exception) {
+        super(m, path, t);
+    }
+
+}
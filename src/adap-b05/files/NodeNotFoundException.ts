@@ -0,0 +1,14 @@
+import { Exception } from "../common/Exception";
+import { PathException } from "./PathException";
+
+/**
+ * A NodeNotFoundException signals that no node exists under a name during path resolution.
+ * getPath() returns the path that failed to resolve.
+ */
+export class NodeNotFoundException extends PathException {
+
+    constructor(m: string, path: string | null = null, t?: Exception) {
+        super(m, path, t);
+    }
+
+}
@@ -0,0 +1,14 @@
+import { Exception } from "../common/Exception";
+import { PathException } from "./PathException";
+
+/**
+ * A NotADirectoryException signals that path resolution needed a directory but found another node.
+ * getPath() returns the path that failed to resolve.
+ */
+export class NotADirectoryException extends PathException {
+
+    constructor(m: string, path: string | null = null, t?: Exception) {
+        super(m, path, t);
+    }
+
+}
@@ -0,0 +1,23 @@
+import { Exception } from "../common/Exception";
+import { ServiceFailureException } from "../common/ServiceFailureException";
+
+/**
+ * A PathException signals that a file system operation failed for a node under a path.
+ */
+export abstract class PathException extends ServiceFailureException {
+
+    protected path: string | null;
+
+    constructor(m: string, path: string | null = null, t?: Exception) {
+        super(m, t);
+        this.path = path;
+    }
+
+    /**
+     * Returns the path the operation failed for, or null if not known.
+     */
+    public getPath(): string | null {
+        return this.path;
+    }
+
+}
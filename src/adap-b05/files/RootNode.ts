@@ -1,7 +1,9 @@
-import { Name } from "../names/Name";
-import { StringName } from "../names/StringName";
 import { Directory } from "./Directory";
+import { Node } from "./Node";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
 import { InvalidStateException } from "../common/InvalidStateException";
+import { Name } from "../../adap-b06/names/Name";
+import { StringArrayName } from "../../adap-b06/names/StringArrayName";
 
 export class RootNode extends Directory {
   protected static ROOT_NODE: RootNode = new RootNode();
@@ -18,14 +20,37 @@ export class RootNode extends Directory {
     this.parentNode = this;
   }
 
+  /**
+   * Returns the name of the root: a single empty component, so that the full names
+   * of all other nodes start with an empty component and read like "/usr/bin".
+   */
   public getFullName(): Name {
-    return new StringName("", "/");
+    if (this.fullName == null) {
+      // a StringName can't hold a single empty component
+      this.fullName = new StringArrayName([""], "/");
+    }
+    return this.fullName;
+  }
+
+  /**
+   * Returns the node that name refers to: absolute names are resolved from this root,
+   * relative names from the working directory cwd. See Directory.resolve().
+   */
+  public lookup(name: Name | string, cwd: Directory = this): Node {
+    if (cwd == null || cwd.getRoot() !== this) {
+      throw new IllegalArgumentException("working directory must belong to this file system");
+    }
+    return cwd.resolve(name);
   }
 
   public move(to: Directory): void {
     // null operation
   }
 
+  public rename(bn: string): void {
+    // null operation
+  }
+
   protected doSetBaseName(bn: string): void {
     // null operation (root's base name stays "")
   }
@@ -0,0 +1,125 @@
+import { ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { InvalidStateException } from "../common/InvalidStateException";
+import { Name } from "./Name";
+
+import { Name as ImmutableName } from "../../adap-b06/names/Name";
+import { NameEscaping } from "../../adap-b06/names/NameEscaping";
+import { IllegalArgumentException as ImmutableIllegalArgumentException } from "../../adap-b06/common/IllegalArgumentException";
+import { InvalidStateException as ImmutableInvalidStateException } from "../../adap-b06/common/InvalidStateException";
+
+/**
+ * A mutable Name backed by an immutable b06 Name, for code written against the b05 API.
+ *
+ * Each change replaces the backing name with the one the b06 operation returns, so the
+ * adapter behaves copy-on-write: clone() and toImmutable() share the current backing name
+ * in O(1), and later changes to the adapter never affect them. Components are masked with
+ * the escape character of the backing name; b06 exceptions are rethrown as their b05
+ * counterparts.
+ */
+export class MutableNameAdapter implements Name {
+
+    protected name: ImmutableName;
+
+    constructor(name: ImmutableName) {
+        IllegalArgumentException.assert(name != null, "name must not be null");
+        this.name = name;
+    }
+
+    /**
+     * Returns the current value of this name; it stays unchanged if this name changes.
+     */
+    public toImmutable(): ImmutableName {
+        return this.name;
+    }
+
+    public clone(): Name {
+        return new MutableNameAdapter(this.name);
+    }
+
+    public asString(delimiter: string = this.getDelimiterCharacter()): string {
+        return this.name.asString(delimiter);
+    }
+
+    public toString(): string {
+        return this.asDataString();
+    }
+
+    public asDataString(): string {
+        return this.name.asDataString();
+    }
+
+    public isEqual(other: Object): boolean {
+        // b06 names compare unmasked components of any name-like object
+        return this.name.isEqual(other);
+    }
+
+    public getHashCode(): number {
+        return this.name.getHashCode();
+    }
+
+    public isEmpty(): boolean {
+        return this.name.isEmpty();
+    }
+
+    public getDelimiterCharacter(): string {
+        return this.name.getDelimiterCharacter();
+    }
+
+    public getEscapeCharacter(): string {
+        return this.name.getEscapeCharacter();
+    }
+
+    public getNoComponents(): number {
+        return this.name.getNoComponents();
+    }
+
+    public getComponent(i: number): string {
+        return this.translate(() => this.name.getComponent(i));
+    }
+
+    public setComponent(i: number, c: string): void {
+        this.name = this.translate(() => this.name.setComponent(i, c));
+    }
+
+    public insert(i: number, c: string): void {
+        this.name = this.translate(() => this.name.insert(i, c));
+    }
+
+    public append(c: string): void {
+        this.name = this.translate(() => this.name.append(c));
+    }
+
+    public remove(i: number): void {
+        this.name = this.translate(() => this.name.remove(i));
+    }
+
+    /**
+     * Appends the components of other, re-masked for the escape character of this name.
+     */
+    public concat(other: Name): void {
+        IllegalArgumentException.assert(other != null, "other must not be null");
+        const escape = other instanceof MutableNameAdapter ? other.getEscapeCharacter() : ESCAPE_CHARACTER;
+        let result = this.name;
+        for (let i = 0; i < other.getNoComponents(); i++) {
+            const raw = NameEscaping.unmask(other.getComponent(i), escape);
+            result = this.translate(() => result.appendRaw(raw));
+        }
+        this.name = result;
+    }
+
+    /** Runs f and rethrows b06 contract exceptions as b05 ones */
+    protected translate<T>(f: () => T): T {
+        try {
+            return f();
+        } catch (e) {
+            if (e instanceof ImmutableIllegalArgumentException) {
+                throw new IllegalArgumentException(e.message);
+            }
+            if (e instanceof ImmutableInvalidStateException) {
+                throw new InvalidStateException(e.message);
+            }
+            throw e;
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { MutableNameAdapter } from "./MutableNameAdapter";
+
+import { Name as ImmutableName } from "../../adap-b06/names/Name";
+import { StringArrayName } from "../../adap-b06/names/StringArrayName";
+
+/**
+ * The read-only part of the mutable Name API shared by stages b02 to b05.
+ */
+export type ReadableName = Pick<Name, "getDelimiterCharacter" | "getNoComponents" | "getComponent">;
+
+/**
+ * Converts between mutable b02-b05 names and immutable b06 names. Names backed by a
+ * MutableNameAdapter convert in O(1) both ways; other mutable names are copied once.
+ */
+export class NameConverter {
+
+    /**
+     * Returns a mutable name with the value of name; changes to it leave name untouched.
+     */
+    public static toMutable(name: ImmutableName): MutableNameAdapter {
+        return new MutableNameAdapter(name);
+    }
+
+    /**
+     * Returns the current value of name as an immutable name, which later changes to name
+     * don't affect. Adapters hand out their backing name. Other names are copied component
+     * by component right away, in O(n): they can change in place without notice, so the
+     * result is a snapshot rather than a copy-on-write view.
+     */
+    public static toImmutable(name: ReadableName): ImmutableName {
+        IllegalArgumentException.assert(name != null, "name must not be null");
+        if (name instanceof MutableNameAdapter) {
+            return name.toImmutable();
+        }
+        const components: string[] = [];
+        for (let i = 0; i < name.getNoComponents(); i++) {
+            components.push(name.getComponent(i));
+        }
+        // b02-b05 names mask with the default escape character
+        return new StringArrayName(components, name.getDelimiterCharacter());
+    }
+}
@@ -0,0 +1,104 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Equality } from "../common/Equality";
+
+type Entry<K, V> = { key: K; value: V };
+
+/**
+ * Map whose keys are compared by value, using the Equality contract
+ * (getHashCode() to find a bucket, isEqual() within the bucket),
+ * rather than by reference like the built-in Map.
+ *
+ * Keys must not change their value while in the map; b06 value objects never do.
+ * Iteration follows insertion order.
+ */
+export class EqualityMap<K extends Equality, V> implements Iterable<[K, V]> {
+  private buckets: Map<number, Entry<K, V>[]> = new Map();
+  private order: Set<Entry<K, V>> = new Set();
+
+  constructor(entries?: Iterable<[K, V]>) {
+    if (entries != undefined) {
+      for (const [k, v] of entries) this.set(k, v);
+    }
+  }
+
+  public get size(): number {
+    return this.order.size;
+  }
+
+  public has(key: K): boolean {
+    return this.find(key) !== undefined;
+  }
+
+  public get(key: K): V | undefined {
+    return this.find(key)?.value;
+  }
+
+  public set(key: K, value: V): this {
+    this.assertKey(key);
+    const entry = this.find(key);
+    if (entry !== undefined) {
+      entry.value = value;
+      return this;
+    }
+
+    const added: Entry<K, V> = { key: key, value: value };
+    const hash = key.getHashCode();
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) {
+      this.buckets.set(hash, [added]);
+    } else {
+      bucket.push(added);
+    }
+    this.order.add(added);
+    return this;
+  }
+
+  public delete(key: K): boolean {
+    this.assertKey(key);
+    const hash = key.getHashCode();
+    const bucket = this.buckets.get(hash);
+    if (bucket === undefined) return false;
+
+    const i = bucket.findIndex((e) => e.key.isEqual(key));
+    if (i < 0) return false;
+
+    this.order.delete(bucket[i]);
+    bucket.splice(i, 1);
+    if (bucket.length === 0) this.buckets.delete(hash);
+    return true;
+  }
+
+  public clear(): void {
+    this.buckets.clear();
+    this.order.clear();
+  }
+
+  public *keys(): IterableIterator<K> {
+    for (const e of this.order) yield e.key;
+  }
+
+  public *values(): IterableIterator<V> {
+    for (const e of this.order) yield e.value;
+  }
+
+  public *entries(): IterableIterator<[K, V]> {
+    for (const e of this.order) yield [e.key, e.value];
+  }
+
+  public forEach(callback: (value: V, key: K, map: EqualityMap<K, V>) => void): void {
+    for (const e of this.order) callback(e.value, e.key, this);
+  }
+
+  public [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+
+  private find(key: K): Entry<K, V> | undefined {
+    this.assertKey(key);
+    return this.buckets.get(key.getHashCode())?.find((e) => e.key.isEqual(key));
+  }
+
+  private assertKey(key: K): void {
+    if (key == null) throw new IllegalArgumentException("key must not be null");
+  }
+}
@@ -0,0 +1,59 @@
+import { Equality } from "../common/Equality";
+import { EqualityMap } from "./EqualityMap";
+
+/**
+ * Set whose elements are compared by value, using the Equality contract,
+ * rather than by reference like the built-in Set.
+ *
+ * Adding an element equal to one already in the set keeps the original element.
+ * Iteration follows insertion order.
+ */
+export class EqualitySet<E extends Equality> implements Iterable<E> {
+  private elements: EqualityMap<E, E> = new EqualityMap();
+
+  constructor(elements?: Iterable<E>) {
+    if (elements != undefined) {
+      for (const e of elements) this.add(e);
+    }
+  }
+
+  public get size(): number {
+    return this.elements.size;
+  }
+
+  public has(e: E): boolean {
+    return this.elements.has(e);
+  }
+
+  /**
+   * Returns the element of this set that is equal to e, if any.
+   */
+  public get(e: E): E | undefined {
+    return this.elements.get(e);
+  }
+
+  public add(e: E): this {
+    if (!this.elements.has(e)) this.elements.set(e, e);
+    return this;
+  }
+
+  public delete(e: E): boolean {
+    return this.elements.delete(e);
+  }
+
+  public clear(): void {
+    this.elements.clear();
+  }
+
+  public values(): IterableIterator<E> {
+    return this.elements.keys();
+  }
+
+  public forEach(callback: (e: E, set: EqualitySet<E>) => void): void {
+    for (const e of this.elements.keys()) callback(e, this);
+  }
+
+  public [Symbol.iterator](): IterableIterator<E> {
+    return this.values();
+  }
+}
@@ -0,0 +1,10 @@
+import { Name } from "../names/Name";
+import { EqualityMap } from "./EqualityMap";
+
+/**
+ * Map keyed by Names, comparing keys by value (see Name.isEqual()).
+ * StringName and StringArrayName keys with equal components hit the same entry.
+ */
+export class NameMap<V> extends EqualityMap<Name, V> {
+
+}
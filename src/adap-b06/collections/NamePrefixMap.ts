@@ -0,0 +1,150 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "../names/Name";
+import { NameEscaping } from "../names/NameEscaping";
+
+class PrefixNode<V> {
+  // children by unmasked component
+  children: Map<string, PrefixNode<V>> = new Map();
+  key: Name | null = null;
+  value: V | undefined = undefined;
+}
+
+/**
+ * Map keyed by Names that is organized as a prefix tree over name components.
+ *
+ * Besides the usual map operations, it answers "all entries under this name"
+ * queries (getEntriesUnder) and finds the entry for the longest prefix of a name
+ * (getLongestPrefixEntry), e.g. for mount points.
+ *
+ * Keys are compared by value (see Name.isEqual()); names with different delimiters
+ * never share a prefix.
+ */
+export class NamePrefixMap<V> implements Iterable<[Name, V]> {
+  private roots: Map<string, PrefixNode<V>> = new Map();
+  private noEntries: number = 0;
+
+  public get size(): number {
+    return this.noEntries;
+  }
+
+  public has(key: Name): boolean {
+    return this.findNode(key)?.key != null;
+  }
+
+  public get(key: Name): V | undefined {
+    return this.findNode(key)?.value;
+  }
+
+  public set(key: Name, value: V): this {
+    this.assertName(key);
+    let node: PrefixNode<V> | undefined = this.roots.get(key.getDelimiterCharacter());
+    if (node === undefined) {
+      node = new PrefixNode<V>();
+      this.roots.set(key.getDelimiterCharacter(), node);
+    }
+
+    for (const c of NameEscaping.getRawComponents(key)) {
+      let child: PrefixNode<V> | undefined = node.children.get(c);
+      if (child === undefined) {
+        child = new PrefixNode<V>();
+        node.children.set(c, child);
+      }
+      node = child;
+    }
+
+    if (node.key == null) this.noEntries++;
+    node.key = key;
+    node.value = value;
+    return this;
+  }
+
+  public delete(key: Name): boolean {
+    this.assertName(key);
+    const root = this.roots.get(key.getDelimiterCharacter());
+    if (root === undefined) return false;
+
+    // remember the path, so that emptied nodes can be pruned
+    const path: PrefixNode<V>[] = [root];
+    const components = NameEscaping.getRawComponents(key);
+    for (const c of components) {
+      const child = path[path.length - 1].children.get(c);
+      if (child === undefined) return false;
+      path.push(child);
+    }
+
+    const node = path[path.length - 1];
+    if (node.key == null) return false;
+    node.key = null;
+    node.value = undefined;
+    this.noEntries--;
+
+    for (let i = path.length - 1; i > 0; i--) {
+      if (path[i].key != null || path[i].children.size > 0) break;
+      path[i - 1].children.delete(components[i - 1]);
+    }
+    return true;
+  }
+
+  public clear(): void {
+    this.roots.clear();
+    this.noEntries = 0;
+  }
+
+  /**
+   * Returns all entries whose key starts with prefix, including prefix itself.
+   */
+  public getEntriesUnder(prefix: Name): [Name, V][] {
+    const node = this.findNode(prefix);
+    return node === undefined ? [] : NamePrefixMap.collect(node);
+  }
+
+  /**
+   * Returns the entry whose key is the longest prefix of name (possibly name itself), if any.
+   */
+  public getLongestPrefixEntry(name: Name): [Name, V] | undefined {
+    this.assertName(name);
+    let node = this.roots.get(name.getDelimiterCharacter());
+    let result: [Name, V] | undefined = undefined;
+    for (const c of NameEscaping.getRawComponents(name)) {
+      if (node === undefined) break;
+      if (node.key != null) result = [node.key, node.value as V];
+      node = node.children.get(c);
+    }
+    if (node !== undefined && node.key != null) result = [node.key, node.value as V];
+    return result;
+  }
+
+  public *entries(): IterableIterator<[Name, V]> {
+    for (const root of this.roots.values()) yield* NamePrefixMap.collect(root);
+  }
+
+  public [Symbol.iterator](): IterableIterator<[Name, V]> {
+    return this.entries();
+  }
+
+  private findNode(key: Name): PrefixNode<V> | undefined {
+    this.assertName(key);
+    let node = this.roots.get(key.getDelimiterCharacter());
+    for (const c of NameEscaping.getRawComponents(key)) {
+      if (node === undefined) return undefined;
+      node = node.children.get(c);
+    }
+    return node;
+  }
+
+  private assertName(name: Name): void {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+  }
+
+  private static collect<V>(start: PrefixNode<V>): [Name, V][] {
+    const result: [Name, V][] = [];
+    const pending: PrefixNode<V>[] = [start];
+    while (pending.length > 0) {
+      const node = pending.pop() as PrefixNode<V>;
+      if (node.key != null) result.push([node.key, node.value as V]);
+      const children = [...node.children.values()];
+      for (let i = children.length - 1; i >= 0; i--) pending.push(children[i]);
+    }
+    return result;
+  }
+}
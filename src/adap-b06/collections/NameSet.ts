@@ -0,0 +1,9 @@
+import { Name } from "../names/Name";
+import { EqualitySet } from "./EqualitySet";
+
+/**
+ * Set of Names, comparing elements by value (see Name.isEqual()).
+ */
+export class NameSet extends EqualitySet<Name> {
+
+}
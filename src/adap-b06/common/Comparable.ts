@@ -0,0 +1,18 @@
+/**
+ * Comparison function defining a total order over T
+ * Returns a negative number, zero, or a positive number if a is less than, equal to, or greater than b
+ */
+export type Comparator<T> = (a: T, b: T) => number;
+
+export interface Comparable<T> {
+
+    /**
+     * Returns a negative number, zero, or a positive number if this object
+     * is less than, equal to, or greater than other
+     * The ordering must be consistent with the equality contract:
+     * compareTo(other) == 0 if and only if isEqual(other)
+     * @param other Object to compare with
+     */
+    compareTo(other: T): number;
+
+}
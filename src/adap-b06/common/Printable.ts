@@ -6,8 +6,8 @@ export interface Printable {
    /**
      * Returns a human-readable representation of the Name instance using user-set special characters
      * Special characters are not escaped (creating a human-readable string)
-     * Users can vary the delimiter character to be used
-     * The delimiter character must be a single character
+     * Users can vary the delimiter to be used
+     * The delimiter must be a non-empty string; it may have more than one character
      */
    asString(delimiter?: string): string;
 
@@ -20,7 +20,7 @@ export interface Printable {
    asDataString(): string;
 
    /**
-    * Returns delimiter char; must be a single character
+    * Returns delimiter; a non-empty string, usually a single character
     */
    getDelimiterCharacter(): string;
 
@@ -14,4 +14,24 @@ export class PostalAddress {
         this.country = country;
     }
 
+    public getStreet(): string {
+        return this.street;
+    }
+
+    public getCity(): string {
+        return this.city;
+    }
+
+    public getState(): string {
+        return this.state;
+    }
+
+    public getPostalCode(): string {
+        return this.postalCode;
+    }
+
+    public getCountry(): string {
+        return this.country;
+    }
+
 }
\ No newline at end of file
@@ -10,6 +10,14 @@ export class QuantityUnit {
         this.unit = unit;
     }
 
+    public getValue(): number {
+        return this.value;
+    }
+
+    public getUnit(): SIUnit {
+        return this.unit;
+    }
+
 }
 
 export enum BaseUnit {
@@ -30,6 +38,10 @@ export class SIUnit {
         this.exponents = [...exponents];
     }
 
+    public getExponents(): number[] {
+        return [...this.exponents];
+    }
+
     public isEqual(other: SIUnit): boolean {
         return this.exponents.every((v, i) => v === other.exponents[i]);
     }
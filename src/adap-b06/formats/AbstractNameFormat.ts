@@ -0,0 +1,50 @@
+import { ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "../names/Name";
+import { StringArrayName } from "../names/StringArrayName";
+import { NameEscaping } from "../names/NameEscaping";
+import { NameFormat } from "./NameFormat";
+
+/**
+ * Base class for name formats.
+ *
+ * Subclasses only need to provide:
+ *  - doParse(text): raw (unmasked) components
+ *  - doSerialize(components): external text for raw components
+ *
+ * Masking for the Name's delimiter, which may consist of more than one character,
+ * is handled here, so subclasses only deal with the quoting rules of their own notation.
+ */
+export abstract class AbstractNameFormat implements NameFormat {
+  protected readonly delimiter: string;
+
+  constructor(delimiter: string) {
+    if (delimiter == null) throw new IllegalArgumentException("delimiter must not be null");
+    if (delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
+    if (delimiter.includes(ESCAPE_CHARACTER)) throw new IllegalArgumentException("delimiter must not contain the escape character");
+    this.delimiter = delimiter;
+  }
+
+  public getDelimiterCharacter(): string {
+    return this.delimiter;
+  }
+
+  public parse(text: string): Name {
+    if (text == null) throw new IllegalArgumentException("text must not be null");
+    const masked = this.doParse(text).map((r) => NameEscaping.mask(r, this.delimiter));
+    return new StringArrayName(masked, this.delimiter);
+  }
+
+  public serialize(name: Name): string {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    return this.doSerialize(NameEscaping.getRawComponents(name));
+  }
+
+  // ---------- subclass API ----------
+
+  /** Splits external text into raw components, undoing the format's quoting */
+  protected abstract doParse(text: string): string[];
+
+  /** Joins raw components into external text, applying the format's quoting */
+  protected abstract doSerialize(components: string[]): string;
+}
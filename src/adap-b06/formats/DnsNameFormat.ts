@@ -0,0 +1,68 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { AbstractNameFormat } from "./AbstractNameFormat";
+
+/**
+ * Name format for DNS names in master-file notation (RFC 1035, section 5.1).
+ *
+ * Labels are separated by '.'; within a label, "\X" quotes character X and
+ * "\DDD" stands for the octet with decimal value DDD.
+ * A trailing '.' (fully qualified name) yields an empty last component.
+ *
+ * "oss.cs.fau.de" parses into a Name with the four components oss, cs, fau and de.
+ */
+export class DnsNameFormat extends AbstractNameFormat {
+  constructor() {
+    super(".");
+  }
+
+  protected doParse(text: string): string[] {
+    if (text.length === 0) return [];
+
+    const labels: string[] = [];
+    let current = "";
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (ch === "\\") {
+        if (i + 1 >= text.length) throw new IllegalArgumentException("dangling escape in DNS name");
+        const digits = text.substring(i + 1, i + 4);
+        if (/^[0-9]{3}$/.test(digits)) {
+          const code = parseInt(digits, 10);
+          if (code > 255) throw new IllegalArgumentException("invalid octet in DNS name");
+          current += String.fromCharCode(code);
+          i += 3;
+        } else {
+          current += text[++i];
+        }
+        continue;
+      }
+      if (ch === ".") {
+        labels.push(current);
+        current = "";
+        continue;
+      }
+      current += ch;
+    }
+    labels.push(current);
+    return labels;
+  }
+
+  protected doSerialize(components: string[]): string {
+    return components.map((c) => DnsNameFormat.quote(c)).join(".");
+  }
+
+  private static quote(label: string): string {
+    let result = "";
+    for (let i = 0; i < label.length; i++) {
+      const ch = label[i];
+      const code = label.charCodeAt(i);
+      if (ch === "." || ch === "\\") {
+        result += "\\" + ch;
+      } else if (code <= 0x20 || code === 0x7f) {
+        result += "\\" + code.toString().padStart(3, "0");
+      } else {
+        result += ch;
+      }
+    }
+    return result;
+  }
+}
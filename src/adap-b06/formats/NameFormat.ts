@@ -0,0 +1,28 @@
+import { Name } from "../names/Name";
+
+/**
+ * A NameFormat maps between an external textual notation (a DNS name, a file path, a URI path)
+ * and a b06 Name. Each format applies its own quoting rules to the external text; the resulting
+ * Name uses the usual masking with the escape character.
+ *
+ * For every name n produced by parse(), serialize(n) yields the original text (modulo
+ * canonicalization), and n.asDataString() can be parsed back into an equal Name.
+ */
+export interface NameFormat {
+  /**
+   * Returns the delimiter of the Names produced by this format; it may be longer than one character.
+   */
+  getDelimiterCharacter(): string;
+
+  /**
+   * Parses external text into a new Name.
+   * Throws IllegalArgumentException if the text is not well-formed for this format.
+   */
+  parse(text: string): Name;
+
+  /**
+   * Serializes a Name into external text.
+   * Throws IllegalArgumentException if a component can't be represented in this format.
+   */
+  serialize(name: Name): string;
+}
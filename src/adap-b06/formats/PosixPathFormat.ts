@@ -0,0 +1,30 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { AbstractNameFormat } from "./AbstractNameFormat";
+
+/**
+ * Name format for POSIX file paths.
+ *
+ * Components are separated by '/'. POSIX has no quoting: a file name may contain
+ * any character except '/' and NUL, so backslashes are ordinary characters.
+ * An absolute path starts with an empty component, hence "/usr/bin/ls" parses
+ * into the four components "", usr, bin and ls.
+ */
+export class PosixPathFormat extends AbstractNameFormat {
+  constructor() {
+    super("/");
+  }
+
+  protected doParse(text: string): string[] {
+    if (text.length === 0) return [];
+    if (text.includes("\0")) throw new IllegalArgumentException("NUL character in POSIX path");
+    return text.split("/");
+  }
+
+  protected doSerialize(components: string[]): string {
+    for (const c of components) {
+      if (c.includes("/")) throw new IllegalArgumentException("'/' can't appear in a POSIX file name");
+      if (c.includes("\0")) throw new IllegalArgumentException("NUL can't appear in a POSIX file name");
+    }
+    return components.join("/");
+  }
+}
@@ -0,0 +1,49 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { AbstractNameFormat } from "./AbstractNameFormat";
+
+/**
+ * Name format for the path part of a URI (RFC 3986, section 3.3).
+ *
+ * Segments are separated by '/'. Characters outside of pchar are percent-encoded
+ * as UTF-8 octets, so "/a%20b/c%2Fd" parses into the components "", "a b" and "c/d".
+ */
+export class UriPathFormat extends AbstractNameFormat {
+  private static readonly PCHAR = /^[A-Za-z0-9\-._~!$&'()*+,;=:@]$/;
+
+  constructor() {
+    super("/");
+  }
+
+  protected doParse(text: string): string[] {
+    if (text.length === 0) return [];
+    return text.split("/").map((s) => UriPathFormat.decode(s));
+  }
+
+  protected doSerialize(components: string[]): string {
+    return components.map((c) => UriPathFormat.encode(c)).join("/");
+  }
+
+  private static decode(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
+    } catch (e) {
+      throw new IllegalArgumentException("malformed percent-encoding in URI path segment: " + segment);
+    }
+  }
+
+  private static encode(segment: string): string {
+    let result = "";
+    for (const ch of segment) {
+      if (UriPathFormat.PCHAR.test(ch)) {
+        result += ch;
+        continue;
+      }
+      try {
+        result += encodeURIComponent(ch);
+      } catch (e) {
+        throw new IllegalArgumentException("URI path segment is not well-formed Unicode: " + segment);
+      }
+    }
+    return result;
+  }
+}
@@ -0,0 +1,40 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { AbstractNameFormat } from "./AbstractNameFormat";
+
+/**
+ * Name format for Windows file paths.
+ *
+ * Components are separated by '\' or '/' on input and by '\' on output.
+ * Windows has no quoting: the characters <>:"/\|?* and control characters
+ * are not allowed in file names, except for the ':' of a leading drive
+ * specification such as "C:".
+ *
+ * As '\' is the escape character of Name, the resulting Names use '/' as delimiter.
+ */
+export class WindowsPathFormat extends AbstractNameFormat {
+  private static readonly ILLEGAL_CHARACTERS = /[<>:"/\\|?*\x00-\x1f]/;
+  private static readonly DRIVE = /^[A-Za-z]:$/;
+
+  constructor() {
+    super("/");
+  }
+
+  protected doParse(text: string): string[] {
+    if (text.length === 0) return [];
+    const components = text.split(/[\\/]/);
+    components.forEach((c, i) => this.assertValidComponent(c, i));
+    return components;
+  }
+
+  protected doSerialize(components: string[]): string {
+    components.forEach((c, i) => this.assertValidComponent(c, i));
+    return components.join("\\");
+  }
+
+  protected assertValidComponent(component: string, index: number): void {
+    if (index === 0 && WindowsPathFormat.DRIVE.test(component)) return;
+    if (WindowsPathFormat.ILLEGAL_CHARACTERS.test(component)) {
+      throw new IllegalArgumentException("illegal character in Windows file name: " + component);
+    }
+  }
+}
@@ -1,7 +1,10 @@
 import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
 import { IllegalArgumentException } from "../common/IllegalArgumentException";
-import { InvalidStateException } from "../common/InvalidStateException";
 import { Name } from "./Name";
+import { NameNormalization } from "./NameNormalization";
+import { NameBuilder } from "./NameBuilder";
+import { NameEscaping } from "./NameEscaping";
+import { NamePolicy } from "./NamePolicy";
 
 /**
  * B06: Immutable value-object base class for Name implementations.
@@ -10,30 +13,76 @@ import { Name } from "./Name";
  *  - getNoComponents()
  *  - getComponent(i)
  *  - withComponents(newComponents): Name   (factory method)
+ *  - withDelimiterAndComponents(delimiter, newComponents): Name   (factory method)
  *
  * All "mutation" operations return a NEW Name.
+ *
+ * Masking works on Unicode code points, so the escape character may be any single
+ * code point and never splits a surrogate pair. An optional NameNormalization is
+ * applied to every component a name stores. An optional NamePolicy is checked by every
+ * new name: subclasses call assertPolicy() once their components are in place.
  */
 export abstract class AbstractName implements Name {
+  protected static readonly CURRENT_COMPONENT = ".";
+  protected static readonly PARENT_COMPONENT = "..";
+
   protected readonly delimiter: string;
+  protected readonly escape: string;
+  protected readonly normalization: NameNormalization | null;
+  protected readonly policy: NamePolicy | null;
 
-  constructor(delimiter: string = DEFAULT_DELIMITER) {
+  constructor(delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER, normalization: NameNormalization | null = null, policy: NamePolicy | null = null) {
     if (delimiter == null) throw new IllegalArgumentException("delimiter must not be null");
-    if (delimiter.length !== 1) throw new IllegalArgumentException("delimiter must be a single character");
+    if (delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
+    if (escape == null) throw new IllegalArgumentException("escape character must not be null");
+    if (Array.from(escape).length !== 1) throw new IllegalArgumentException("escape character must be a single character");
+    if (delimiter.includes(escape)) throw new IllegalArgumentException("delimiter must not contain the escape character");
     this.delimiter = delimiter;
+    this.escape = escape;
+    this.normalization = normalization;
+    this.policy = policy;
   }
 
   public getDelimiterCharacter(): string {
     return this.delimiter;
   }
 
+  public getEscapeCharacter(): string {
+    return this.escape;
+  }
+
+  public getNormalization(): NameNormalization | null {
+    return this.normalization;
+  }
+
+  public getPolicy(): NamePolicy | null {
+    return this.policy;
+  }
+
   public isEmpty(): boolean {
     return this.getNoComponents() === 0;
   }
 
+  public getRawComponent(i: number): string {
+    return NameEscaping.unmask(this.getComponent(i), this.escape);
+  }
+
   // ---------- immutability: all return new objects ----------
 
+  public setRawComponent(i: number, raw: string): Name {
+    return this.setComponent(i, this.maskRawComponent(raw));
+  }
+
+  public insertRaw(i: number, raw: string): Name {
+    return this.insert(i, this.maskRawComponent(raw));
+  }
+
+  public appendRaw(raw: string): Name {
+    return this.append(this.maskRawComponent(raw));
+  }
+
   public setComponent(i: number, c: string): Name {
-    this.assertMaskedComponent(c, this.delimiter);
+    this.assertMaskedComponent(c);
     const parts = this.copyComponents();
     this.assertIndex(i, parts.length);
     parts[i] = c;
@@ -41,7 +90,7 @@ export abstract class AbstractName implements Name {
   }
 
   public insert(i: number, c: string): Name {
-    this.assertMaskedComponent(c, this.delimiter);
+    this.assertMaskedComponent(c);
     const parts = this.copyComponents();
     if (!Number.isInteger(i) || i < 0 || i > parts.length) {
       throw new IllegalArgumentException("index out of range");
@@ -51,7 +100,7 @@ export abstract class AbstractName implements Name {
   }
 
   public append(c: string): Name {
-    this.assertMaskedComponent(c, this.delimiter);
+    this.assertMaskedComponent(c);
     const parts = this.copyComponents();
     parts.push(c);
     return this.withComponents(parts);
@@ -67,26 +116,124 @@ export abstract class AbstractName implements Name {
   public concat(other: Name): Name {
     if (other == null) throw new IllegalArgumentException("other must not be null");
     const parts = this.copyComponents();
-    for (let i = 0; i < other.getNoComponents(); i++) {
-      parts.push(other.getComponent(i));
+    for (const raw of NameEscaping.getRawComponents(other)) {
+      parts.push(NameEscaping.mask(raw, this.delimiter, this.escape));
     }
     return this.withComponents(parts);
   }
 
+  /**
+   * Returns this name with all components re-masked for the new delimiter.
+   */
+  public withDelimiter(delimiter: string): Name {
+    if (delimiter == null) throw new IllegalArgumentException("delimiter must not be null");
+    if (delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
+    if (delimiter.includes(this.escape)) throw new IllegalArgumentException("delimiter must not contain the escape character");
+    if (delimiter === this.delimiter) return this;
+
+    const parts = this.copyRawComponents().map((r) => NameEscaping.mask(r, delimiter, this.escape));
+    return this.withDelimiterAndComponents(delimiter, parts);
+  }
+
+  // ---------- hierarchy: prefixes, suffixes and path algebra ----------
+
+  public startsWith(other: Name): boolean {
+    if (other == null) throw new IllegalArgumentException("other must not be null");
+    const mine = this.copyRawComponents();
+    const theirs = NameEscaping.getRawComponents(other);
+    if (theirs.length > mine.length) return false;
+    return theirs.every((c, i) => c === mine[i]);
+  }
+
+  public endsWith(other: Name): boolean {
+    if (other == null) throw new IllegalArgumentException("other must not be null");
+    const mine = this.copyRawComponents();
+    const theirs = NameEscaping.getRawComponents(other);
+    const offset = mine.length - theirs.length;
+    if (offset < 0) return false;
+    return theirs.every((c, i) => c === mine[offset + i]);
+  }
+
+  public getPrefix(n: number): Name {
+    const parts = this.copyComponents();
+    this.assertCount(n, parts.length);
+    return this.withComponents(parts.slice(0, n));
+  }
+
+  public getSuffix(n: number): Name {
+    const parts = this.copyComponents();
+    this.assertCount(n, parts.length);
+    return this.withComponents(parts.slice(parts.length - n));
+  }
+
+  public getParent(): Name {
+    if (this.isEmpty()) throw new IllegalArgumentException("empty name has no parent");
+    return this.getPrefix(this.getNoComponents() - 1);
+  }
+
+  public getLastComponent(): string {
+    if (this.isEmpty()) throw new IllegalArgumentException("empty name has no last component");
+    return this.getComponent(this.getNoComponents() - 1);
+  }
+
+  public relativize(other: Name): Name {
+    if (other == null) throw new IllegalArgumentException("other must not be null");
+    const mine = this.copyRawComponents();
+    const theirs = NameEscaping.getRawComponents(other);
+
+    let common = 0;
+    while (common < mine.length && common < theirs.length && mine[common] === theirs[common]) common++;
+
+    const raw: string[] = [];
+    for (let i = common; i < mine.length; i++) raw.push(AbstractName.PARENT_COMPONENT);
+    raw.push(...theirs.slice(common));
+    return this.withComponents(raw.map((r) => NameEscaping.mask(r, this.delimiter, this.escape)));
+  }
+
+  public resolve(other: Name): Name {
+    if (other == null) throw new IllegalArgumentException("other must not be null");
+    // an absolute name (leading empty component) replaces this one
+    if (!other.isEmpty() && other.getRawComponent(0) === "") return other.normalize();
+    return this.concat(other).normalize();
+  }
+
+  public normalize(): Name {
+    const parts = this.copyComponents();
+    const raw = this.copyRawComponents();
+    const hasRoot = raw.length > 0 && raw[0] === "";
+
+    const result: string[] = [];
+    const resultRaw: string[] = [];
+    for (let i = 0; i < parts.length; i++) {
+      if (raw[i] === AbstractName.CURRENT_COMPONENT) continue;
+      if (raw[i] === AbstractName.PARENT_COMPONENT) {
+        const last = resultRaw.length - 1;
+        if (last >= 0 && resultRaw[last] !== AbstractName.PARENT_COMPONENT && !(hasRoot && last === 0)) {
+          result.pop();
+          resultRaw.pop();
+          continue;
+        }
+        // '..' directly below the root stays at the root
+        if (hasRoot && last === 0) continue;
+      }
+      result.push(parts[i]);
+      resultRaw.push(raw[i]);
+    }
+    return this.withComponents(result);
+  }
+
   // ---------- Printable ----------
 
   public asString(delimiter: string = this.delimiter): string {
     if (delimiter == null) throw new IllegalArgumentException("delimiter must not be null");
-    if (delimiter.length !== 1) throw new IllegalArgumentException("delimiter must be a single character");
+    if (delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
 
-    const rawParts = this.copyComponents().map((m) => AbstractName.unescape(m));
-    return rawParts.join(delimiter);
+    return this.copyRawComponents().join(delimiter);
   }
 
   public asDataString(): string {
     // Machine-readable: always default delimiter and escaping rules
-    const rawParts = this.copyComponents().map((m) => AbstractName.unescape(m));
-    const escapedParts = rawParts.map((r) => AbstractName.escapeForDelimiter(r, DEFAULT_DELIMITER));
+    const escapedParts = this.copyRawComponents().map((r) => NameEscaping.mask(r, DEFAULT_DELIMITER));
     return escapedParts.join(DEFAULT_DELIMITER);
   }
 
@@ -111,35 +258,91 @@ export abstract class AbstractName implements Name {
     if (this.getDelimiterCharacter() !== o.getDelimiterCharacter()) return false;
     if (this.getNoComponents() !== o.getNoComponents()) return false;
 
-    for (let i = 0; i < this.getNoComponents(); i++) {
-      if (this.getComponent(i) !== o.getComponent(i)) return false;
+    // Compare unmasked components, so that names using different escape characters can be equal
+    const mine = this.copyRawComponents();
+    const theirs = NameEscaping.getRawComponents(o);
+    for (let i = 0; i < mine.length; i++) {
+      if (mine[i] !== theirs[i]) return false;
     }
     return true;
   }
 
-
   public getHashCode(): number {
-    // Simple stable hash: combine delimiter + components.
+    // Simple stable hash: combine delimiter + unmasked components.
     // Equal objects -> same hash. Not necessarily unique (that's fine).
     let h = 17;
     h = AbstractName.hashStep(h, this.getDelimiterCharacter());
-    for (let i = 0; i < this.getNoComponents(); i++) {
-      h = AbstractName.hashStep(h, this.getComponent(i));
+    for (const raw of this.copyRawComponents()) {
+      h = AbstractName.hashStep(h, raw);
     }
     return h;
   }
 
+  /**
+   * Like isEqual(), but ignores the delimiter: compares unmasked components only.
+   */
+  public isEquivalent(other: Name): boolean {
+    if (other == null) return false;
+    if (this.getNoComponents() !== other.getNoComponents()) return false;
+
+    const mine = this.copyRawComponents();
+    const theirs = NameEscaping.getRawComponents(other);
+    return mine.every((c, i) => c === theirs[i]);
+  }
+
+  /**
+   * Hash code consistent with isEquivalent(): the same fold as getHashCode(), without the delimiter.
+   */
+  public getEquivalenceHashCode(): number {
+    let h = 17;
+    for (const raw of this.copyRawComponents()) {
+      h = AbstractName.hashStep(h, raw);
+    }
+    return h;
+  }
+
+  // ---------- Comparable ----------
+
+  /**
+   * Orders names lexicographically by their unmasked components (comparing UTF-16 code units),
+   * a proper prefix before its extensions; names with equal components are ordered by delimiter.
+   */
+  public compareTo(other: Name): number {
+    if (other == null) throw new IllegalArgumentException("other must not be null");
+    const mine = this.copyRawComponents();
+    const theirs = NameEscaping.getRawComponents(other);
+
+    const n = Math.min(mine.length, theirs.length);
+    for (let i = 0; i < n; i++) {
+      if (mine[i] !== theirs[i]) return mine[i] < theirs[i] ? -1 : 1;
+    }
+    if (mine.length !== theirs.length) return mine.length - theirs.length;
+
+    const d = other.getDelimiterCharacter();
+    return this.delimiter === d ? 0 : (this.delimiter < d ? -1 : 1);
+  }
+
   // ---------- subclass API ----------
 
   abstract getNoComponents(): number;
   abstract getComponent(i: number): string;
 
+  /**
+   * Implemented by the concrete classes, as NameBuilder depends on them
+   */
+  abstract toBuilder(): NameBuilder;
+
   /**
    * Factory method: subclasses must return a NEW instance containing exactly these masked components
-   * and using the same delimiter as this instance.
+   * and using the same delimiter, escape character, normalization and policy as this instance.
    */
   protected abstract withComponents(components: string[]): Name;
 
+  /**
+   * Factory method: like withComponents(), but the new instance uses the given delimiter.
+   */
+  protected abstract withDelimiterAndComponents(delimiter: string, components: string[]): Name;
+
   // ---------- helpers ----------
 
   protected copyComponents(): string[] {
@@ -148,60 +351,58 @@ export abstract class AbstractName implements Name {
     return parts;
   }
 
+  protected copyRawComponents(): string[] {
+    return this.copyComponents().map((m) => NameEscaping.unmask(m, this.escape));
+  }
+
+  protected assertCount(n: number, max: number): void {
+    if (!Number.isInteger(n)) throw new IllegalArgumentException("count must be integer");
+    if (n < 0 || n > max) throw new IllegalArgumentException("count out of range");
+  }
+
   protected assertIndex(i: number, n: number): void {
     if (!Number.isInteger(i)) throw new IllegalArgumentException("index must be integer");
     if (i < 0 || i >= n) throw new IllegalArgumentException("index out of range");
   }
 
+  /**
+   * Returns masked component in normalized form; subclasses apply this to every component they store.
+   */
+  protected normalizeComponent(masked: string): string {
+    if (this.normalization == null) return masked;
+    const raw = this.normalization.apply(NameEscaping.unmask(masked, this.escape));
+    return NameEscaping.mask(raw, this.delimiter, this.escape);
+  }
+
   /**
    * Validates that a masked component contains no unescaped delimiter and no dangling escape.
    */
-  protected assertMaskedComponent(masked: string, delimiter: string): void {
+  protected assertMaskedComponent(masked: string): void {
     if (typeof masked !== "string") throw new IllegalArgumentException("component must be a string");
-    AbstractName.validateMasked(masked, delimiter);
-  }
-
-  /** Unescape masked component: turns '\x' into 'x' */
-  protected static unescape(masked: string): string {
-    let result = "";
-    for (let i = 0; i < masked.length; i++) {
-      const ch = masked[i];
-      if (ch === ESCAPE_CHARACTER) {
-        i++;
-        if (i < masked.length) result += masked[i];
-      } else {
-        result += ch;
-      }
-    }
-    return result;
+    NameEscaping.assertMasked(masked, this.delimiter, this.escape);
   }
 
-  /** Escape raw component for given delimiter: escape '\' and delimiter */
-  protected static escapeForDelimiter(raw: string, delimiter: string): string {
-    let result = "";
-    for (let i = 0; i < raw.length; i++) {
-      const ch = raw[i];
-      if (ch === ESCAPE_CHARACTER || ch === delimiter) result += ESCAPE_CHARACTER;
-      result += ch;
-    }
-    return result;
+  /**
+   * Throws a NamePolicyException (an IllegalArgumentException) if this name violates its policy.
+   */
+  protected assertPolicy(): void {
+    if (this.policy != null) this.policy.validate(this);
   }
 
-  protected static validateMasked(masked: string, delimiter: string): void {
-    for (let i = 0; i < masked.length; i++) {
-      const ch = masked[i];
-      if (ch === ESCAPE_CHARACTER) {
-        i++;
-        if (i >= masked.length) throw new InvalidStateException("dangling escape in component");
-        continue;
-      }
-      if (ch === delimiter) throw new InvalidStateException("unmasked delimiter in component");
-    }
+  /** Masks a raw component for this name; the result always passes assertMaskedComponent() */
+  protected maskRawComponent(raw: string): string {
+    if (typeof raw !== "string") throw new IllegalArgumentException("component must be a string");
+    return NameEscaping.mask(raw, this.delimiter, this.escape);
+  }
+
+  /** Returns the code point starting at position i of s as a string (one or two code units) */
+  protected static codePointAt(s: string, i: number): string {
+    return String.fromCodePoint(s.codePointAt(i) as number);
   }
 
-  private static hashStep(h: number, s: string): number {
+  protected static hashStep(h: number, s: string): number {
     let x = h * 31;
-    for (let i = 0; i < s.length; i++) x = (x * 31 + s.charCodeAt(i)) | 0;
+    for (const ch of s) x = (x * 31 + (ch.codePointAt(0) as number)) | 0;
     return x;
   }
 }
@@ -0,0 +1,155 @@
+import { ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { AbstractName } from "./AbstractName";
+import { NameBuilder } from "./NameBuilder";
+import { NameEscaping } from "./NameEscaping";
+import { NamePolicy } from "./NamePolicy";
+import { Punycode } from "./Punycode";
+import { PublicSuffixList } from "./PublicSuffixList";
+import { StringArrayName } from "./StringArrayName";
+
+/**
+ * Immutable DNS domain name like "oss.cs.fau.de" or "bücher.example".
+ *
+ * A DomainName stores its labels in canonical form: lowercase ASCII, with Unicode labels
+ * converted to Punycode ("xn--bcher-kva"). So equality, hash codes and ordering ignore
+ * case and compare Unicode and ASCII spellings of a label as the same, and asString()
+ * returns the ASCII form; getUnicodeLabel() and toUnicodeString() convert back.
+ *
+ * Every DomainName, including derived ones, is checked against NamePolicy.DNS (labels of
+ * at most 63, names of at most 253 characters, letters, digits and hyphens only); labels
+ * must also not start or end with a hyphen, and "xn--" labels must be valid Punycode.
+ */
+export class DomainName extends AbstractName {
+  private static readonly DOTS = /[.。．｡]/;
+
+  private readonly labels: ReadonlyArray<string>;
+
+  /**
+   * Returns the domain name of the given ASCII or Unicode labels.
+   */
+  public static fromLabels(labels: string[]): DomainName {
+    if (labels == null || !Array.isArray(labels)) throw new IllegalArgumentException("labels must be an array");
+    return DomainName.fromRawLabels(labels);
+  }
+
+  /**
+   * @param source domain name with labels separated by dots, optionally ending in a dot;
+   *   Unicode labels may also be separated by ideographic full stops
+   */
+  constructor(source: string);
+
+  // fromRawLabels() passes the unmasked labels instead of a string
+  constructor(source: string | string[]) {
+    super(".", ESCAPE_CHARACTER, null, NamePolicy.DNS);
+    if (source == null) throw new IllegalArgumentException("source must not be null");
+
+    if (Array.isArray(source)) {
+      this.labels = DomainName.canonicalize(source);
+    } else {
+      if (typeof source !== "string") throw new IllegalArgumentException("source must be a string");
+      const parts = source.split(DomainName.DOTS);
+      if (parts.length > 1 && parts[parts.length - 1] === "") parts.pop();
+      this.labels = DomainName.canonicalize(parts.length === 1 && parts[0] === "" ? [] : parts);
+    }
+    this.assertPolicy();
+  }
+
+  public getNoComponents(): number {
+    return this.labels.length;
+  }
+
+  public getComponent(i: number): string {
+    if (!Number.isInteger(i)) throw new IllegalArgumentException("index must be integer");
+    if (i < 0 || i >= this.labels.length) throw new IllegalArgumentException("index out of range");
+    return this.labels[i];
+  }
+
+  public toBuilder(): NameBuilder {
+    return NameBuilder.from(this);
+  }
+
+  // ---------- IDNA ----------
+
+  /**
+   * Returns label i in Unicode form, e.g. "bücher" for "xn--bcher-kva".
+   */
+  public getUnicodeLabel(i: number): string {
+    return Punycode.toUnicode(this.getRawComponent(i));
+  }
+
+  public toUnicodeString(): string {
+    return this.copyRawComponents().map((l) => Punycode.toUnicode(l)).join(this.delimiter);
+  }
+
+  // ---------- public suffixes ----------
+
+  /**
+   * Returns the top-level domain, e.g. "de" for "oss.cs.fau.de", or null for the empty name.
+   */
+  public getTopLevelDomain(): DomainName | null {
+    return this.isEmpty() ? null : this.getLastLabels(1);
+  }
+
+  /**
+   * Returns the public suffix under which this domain is registered, e.g. "co.uk" for
+   * "www.example.co.uk", or null for the empty name.
+   */
+  public getPublicSuffix(list: PublicSuffixList = PublicSuffixList.getBundled()): DomainName | null {
+    return this.isEmpty() ? null : this.getLastLabels(this.getPublicSuffixLength(list));
+  }
+
+  /**
+   * Returns the registrable domain, i.e. the public suffix plus one label, e.g.
+   * "example.co.uk" for "www.example.co.uk"; null if this is a public suffix itself.
+   */
+  public getRegistrableDomain(list: PublicSuffixList = PublicSuffixList.getBundled()): DomainName | null {
+    const n = this.getPublicSuffixLength(list);
+    return this.labels.length > n ? this.getLastLabels(n + 1) : null;
+  }
+
+  public isPublicSuffix(list: PublicSuffixList = PublicSuffixList.getBundled()): boolean {
+    return !this.isEmpty() && this.getPublicSuffixLength(list) === this.labels.length;
+  }
+
+  // ---------- factory methods ----------
+
+  protected withComponents(components: string[]): Name {
+    return DomainName.fromRawLabels(components.map((c) => NameEscaping.unmask(c, this.escape)));
+  }
+
+  protected withDelimiterAndComponents(delimiter: string, components: string[]): Name {
+    // Domain names always use dots, so other delimiters yield a plain name
+    return new StringArrayName(components, delimiter, this.escape, null, this.policy);
+  }
+
+  // ---------- helpers ----------
+
+  private getPublicSuffixLength(list: PublicSuffixList): number {
+    if (list == null) throw new IllegalArgumentException("suffix list must not be null");
+    return list.getPublicSuffixLength(this.copyRawComponents());
+  }
+
+  private getLastLabels(n: number): DomainName {
+    return DomainName.fromRawLabels(this.copyRawComponents().slice(this.labels.length - n));
+  }
+
+  private static fromRawLabels(labels: string[]): DomainName {
+    return new (DomainName as new (source: string | string[]) => DomainName)(labels);
+  }
+
+  /** Returns the masked lowercase ASCII form of labels; length and character rules are left to the policy */
+  private static canonicalize(labels: string[]): ReadonlyArray<string> {
+    return Object.freeze(labels.map((label) => {
+      if (typeof label !== "string") throw new IllegalArgumentException("label must be a string");
+      const ascii = Punycode.toASCII(label).toLowerCase();
+      if (ascii.startsWith("-") || ascii.endsWith("-")) throw new IllegalArgumentException("label must not start or end with a hyphen: " + label);
+      // decoding throws IllegalArgumentException for malformed Punycode
+      if (ascii.startsWith(Punycode.ACE_PREFIX)) Punycode.toUnicode(ascii);
+      return NameEscaping.mask(ascii, ".", ESCAPE_CHARACTER);
+    }));
+  }
+}
+
+export default DomainName;
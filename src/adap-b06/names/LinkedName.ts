@@ -0,0 +1,234 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { AbstractName } from "./AbstractName";
+import { NameNormalization } from "./NameNormalization";
+import { NamePolicy } from "./NamePolicy";
+import { NameBuilder } from "./NameBuilder";
+import { NameEscaping } from "./NameEscaping";
+
+/**
+ * Immutable Name implementation backed by a persistent linked list of masked components.
+ *
+ * Every node holds one component and points to the node of its prefix, so derived names
+ * share all unchanged prefixes with the name they were derived from:
+ *  - append(), getParent() cost O(1)
+ *  - getComponent(), getPrefix() cost O(log n), using skew-binary jump pointers
+ *  - concat() costs O(m) for m components of the other name, without copying this one
+ *  - setComponent(), insert(), remove() at index i keep the first i components
+ */
+export class LinkedName extends AbstractName {
+  private readonly tail: ComponentNode | null;
+
+  /**
+   * Returns a LinkedName of the given unmasked components, masked for delimiter and escape.
+   */
+  public static fromRawComponents(raw: string[], delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER, normalization: NameNormalization | null = null, policy: NamePolicy | null = null): LinkedName {
+    if (raw == null || !Array.isArray(raw)) throw new IllegalArgumentException("components must be an array");
+    return new LinkedName(raw.map((r) => NameEscaping.mask(r, delimiter, escape)), delimiter, escape, normalization, policy);
+  }
+
+  /**
+   * @param source masked components (each component must be properly masked)
+   * @param delimiter delimiter, may consist of more than one character
+   * @param escape single character used for masking
+   * @param normalization optional normalization applied to all components
+   * @param policy optional constraints checked by this and every derived name
+   */
+  constructor(source: string[], delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null);
+
+  // Derived names pass their last node, which link() has checked already
+  constructor(source: string[] | ComponentNode, delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null) {
+    super(delimiter, escape, normalization, policy);
+
+    if (source == null) throw new IllegalArgumentException("source must not be null");
+    if (source instanceof ComponentNode) {
+      this.tail = source;
+      return;
+    }
+    if (!Array.isArray(source)) throw new IllegalArgumentException("source must be an array");
+
+    for (const c of source) {
+      this.assertMaskedComponent(c);
+    }
+    this.tail = this.link(null, source);
+  }
+
+  public getNoComponents(): number {
+    return ComponentNode.depthOf(this.tail);
+  }
+
+  public getComponent(i: number): string {
+    this.assertIndex(i, this.getNoComponents());
+    return (ComponentNode.ancestor(this.tail, i + 1) as ComponentNode).component;
+  }
+
+  public setComponent(i: number, c: string): Name {
+    this.assertMaskedComponent(c);
+    this.assertIndex(i, this.getNoComponents());
+    return this.relink(i, [c], i + 1);
+  }
+
+  public insert(i: number, c: string): Name {
+    this.assertMaskedComponent(c);
+    if (!Number.isInteger(i) || i < 0 || i > this.getNoComponents()) {
+      throw new IllegalArgumentException("index out of range");
+    }
+    return this.relink(i, [c], i);
+  }
+
+  public append(c: string): Name {
+    this.assertMaskedComponent(c);
+    return this.withTail(this.link(this.tail, [c]));
+  }
+
+  public remove(i: number): Name {
+    this.assertIndex(i, this.getNoComponents());
+    return this.relink(i, [], i + 1);
+  }
+
+  public concat(other: Name): Name {
+    if (other == null) throw new IllegalArgumentException("other must not be null");
+    const parts = NameEscaping.getRawComponents(other).map((r) => NameEscaping.mask(r, this.delimiter, this.escape));
+    return this.withTail(this.link(this.tail, parts));
+  }
+
+  public getPrefix(n: number): Name {
+    this.assertCount(n, this.getNoComponents());
+    return this.withTail(ComponentNode.ancestor(this.tail, n));
+  }
+
+  public getParent(): Name {
+    if (this.tail == null) throw new IllegalArgumentException("empty name has no parent");
+    return this.withTail(this.tail.parent);
+  }
+
+  public getLastComponent(): string {
+    if (this.tail == null) throw new IllegalArgumentException("empty name has no last component");
+    return this.tail.component;
+  }
+
+  public startsWith(other: Name): boolean {
+    if (other instanceof LinkedName && this.hasSameSyntax(other)) {
+      // shared structure: other is a prefix iff its tail node is one of our ancestors
+      const depth = other.getNoComponents();
+      if (depth <= this.getNoComponents() && ComponentNode.ancestor(this.tail, depth) === other.tail) return true;
+    }
+    return super.startsWith(other);
+  }
+
+  public isEqual(other: Object): boolean {
+    if (other instanceof LinkedName && this.hasSameSyntax(other) && other.tail === this.tail) return true;
+    return super.isEqual(other);
+  }
+
+  public getHashCode(): number {
+    return this.hashOf(this.tail);
+  }
+
+  public toBuilder(): NameBuilder {
+    return NameBuilder.from(this);
+  }
+
+  protected withComponents(components: string[]): Name {
+    return this.withTail(this.link(null, components));
+  }
+
+  protected withDelimiterAndComponents(delimiter: string, components: string[]): Name {
+    return new LinkedName(components, delimiter, this.escape, this.normalization, this.policy);
+  }
+
+  protected copyComponents(): string[] {
+    const parts: string[] = new Array(this.getNoComponents());
+    for (let node = this.tail; node != null; node = node.parent) {
+      parts[node.depth - 1] = node.component;
+    }
+    return parts;
+  }
+
+  /** Keeps the first keep components, then links parts and the components from index resume on */
+  private relink(keep: number, parts: string[], resume: number): Name {
+    const rest = this.copyComponents().slice(resume);
+    const prefix = ComponentNode.ancestor(this.tail, keep);
+    return this.withTail(this.link(prefix, [...parts, ...rest]));
+  }
+
+  /**
+   * Links components below parent, checking each new node against the policy; parent
+   * must be a prefix of a name that conforms to it.
+   */
+  private link(parent: ComponentNode | null, components: string[]): ComponentNode | null {
+    let node = parent;
+    for (const masked of components) {
+      const c = this.normalizeComponent(masked);
+      const raw = NameEscaping.unmask(c, this.escape);
+      // Same fold as AbstractName.getHashCode(), done incrementally along the prefix
+      const hashCode = AbstractName.hashStep(this.hashOf(node), raw);
+      const length = node == null ? Array.from(raw).length : node.length + Array.from(this.delimiter).length + Array.from(raw).length;
+      node = new ComponentNode(node, c, hashCode, length);
+      if (this.policy != null) this.policy.validateLast(raw, node.depth, length);
+    }
+    return node;
+  }
+
+  private hashOf(node: ComponentNode | null): number {
+    return node == null ? AbstractName.hashStep(17, this.delimiter) : node.hashCode;
+  }
+
+  /** Returns a name ending in tail, which link() has checked against the policy */
+  private withTail(tail: ComponentNode | null): LinkedName {
+    return new (LinkedName as TailConstructor)(tail ?? [], this.delimiter, this.escape, this.normalization, this.policy);
+  }
+
+  private hasSameSyntax(other: LinkedName): boolean {
+    return this.delimiter === other.delimiter && this.escape === other.escape;
+  }
+}
+
+/**
+ * Node of a persistent component list; shared between all names with the same prefix.
+ */
+class ComponentNode {
+  readonly parent: ComponentNode | null;
+  readonly jump: ComponentNode | null;
+  readonly component: string;
+  readonly depth: number;
+  readonly hashCode: number;
+
+  /** Length of the prefix up to this node in asString(), in code points */
+  readonly length: number;
+
+  constructor(parent: ComponentNode | null, component: string, hashCode: number, length: number) {
+    this.parent = parent;
+    this.component = component;
+    this.depth = ComponentNode.depthOf(parent) + 1;
+
+    // Skew-binary jump pointers (Myers 1983): ancestor lookup in O(log n)
+    if (parent != null && parent.jump != null &&
+        parent.depth - parent.jump.depth === parent.jump.depth - ComponentNode.depthOf(parent.jump.jump)) {
+      this.jump = parent.jump.jump;
+    } else {
+      this.jump = parent;
+    }
+
+    this.hashCode = hashCode;
+    this.length = length;
+  }
+
+  static depthOf(node: ComponentNode | null): number {
+    return node == null ? 0 : node.depth;
+  }
+
+  /** Returns the ancestor of node (or node itself) with the given depth */
+  static ancestor(node: ComponentNode | null, depth: number): ComponentNode | null {
+    while (node != null && node.depth > depth) {
+      node = ComponentNode.depthOf(node.jump) >= depth ? node.jump : node.parent;
+    }
+    return node;
+  }
+}
+
+/** The LinkedName constructor as implemented, including the overload for derived names */
+type TailConstructor = new (source: string[] | ComponentNode, delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null) => LinkedName;
+
+export default LinkedName;
@@ -1,16 +1,26 @@
 import { Printable } from "../common/Printable";
 import { Equality } from "../common/Equality";
+import { Comparable } from "../common/Comparable";
+import { NameBuilder } from "./NameBuilder";
 
 /**
  * B06 Value Object:
  * Name is immutable. All "modifying" operations return a NEW Name instance.
  *
- * A name is a sequence of string components separated by a delimiter character.
+ * A name is a sequence of string components separated by a delimiter.
  * Special characters within the string may need masking, if they are to appear verbatim.
- * There are only two special characters, the delimiter character and the escape character.
- * The escape character can't be set, the delimiter character can.
+ * There are only two special characters, the delimiter and the escape character.
+ * Both can be set per instance; the delimiter may consist of more than one character
+ * (as in "a::b::c"), the escape character is always a single character.
+ * A masked delimiter is written as the escape character followed by the delimiter.
+ *
+ * The *Raw variants of the accessors and mutators take and return unmasked components
+ * and do the masking themselves (see NameEscaping), so callers never handle escapes.
+ *
+ * Names are ordered lexicographically by their unmasked components (see compareTo);
+ * NameComparators offers further orderings.
  */
-export interface Name extends Printable, Equality {
+export interface Name extends Printable, Equality, Comparable<Name> {
   /**
    * Returns true iff number of components == 0.
    */
@@ -26,6 +36,11 @@ export interface Name extends Printable, Equality {
    */
   getComponent(i: number): string;
 
+  /**
+   * Returns the i-th component unmasked, i.e. without escape characters.
+   */
+  getRawComponent(i: number): string;
+
   /**
    * Returns a new Name with the i-th component replaced by c.
    * Expects c to be properly masked.
@@ -44,6 +59,21 @@ export interface Name extends Printable, Equality {
    */
   append(c: string): Name;
 
+  /**
+   * Like setComponent(), but takes an unmasked component and masks it for this Name.
+   */
+  setRawComponent(i: number, raw: string): Name;
+
+  /**
+   * Like insert(), but takes an unmasked component and masks it for this Name.
+   */
+  insertRaw(i: number, raw: string): Name;
+
+  /**
+   * Like append(), but takes an unmasked component and masks it for this Name.
+   */
+  appendRaw(raw: string): Name;
+
   /**
    * Returns a new Name with the i-th component removed.
    */
@@ -55,7 +85,81 @@ export interface Name extends Printable, Equality {
   concat(other: Name): Name;
 
   /**
-   * Returns the delimiter character of this Name.
+   * Returns true iff the (unmasked) components of other are a prefix of this Name's components.
+   */
+  startsWith(other: Name): boolean;
+
+  /**
+   * Returns true iff the (unmasked) components of other are a suffix of this Name's components.
+   */
+  endsWith(other: Name): boolean;
+
+  /**
+   * Returns a new Name with the first n components; expects 0 <= n <= getNoComponents().
+   */
+  getPrefix(n: number): Name;
+
+  /**
+   * Returns a new Name with the last n components; expects 0 <= n <= getNoComponents().
+   */
+  getSuffix(n: number): Name;
+
+  /**
+   * Returns a new Name without the last component; expects a non-empty Name.
+   */
+  getParent(): Name;
+
+  /**
+   * Returns the last (masked) component; expects a non-empty Name.
+   */
+  getLastComponent(): string;
+
+  /**
+   * Returns a new Name r such that this.resolve(r) is equal to other (for normalized names).
+   * Components of this Name not shared with other are stepped over using "..".
+   */
+  relativize(other: Name): Name;
+
+  /**
+   * Returns a new Name that is the normalized concatenation of this and other.
+   * If other is absolute, i.e. starts with an empty component, it is returned normalized.
+   */
+  resolve(other: Name): Name;
+
+  /**
+   * Returns a new Name with all "." components removed and every ".." component
+   * cancelled against its preceding component. A leading empty component denotes
+   * a root (as in "/usr/bin"); it is kept, and ".." directly below it is dropped.
+   */
+  normalize(): Name;
+
+  /**
+   * Returns a Name with the same unmasked components, masked for the given delimiter.
+   */
+  withDelimiter(delimiter: string): Name;
+
+  /**
+   * Returns true iff other has the same unmasked components, regardless of delimiters.
+   */
+  isEquivalent(other: Name): boolean;
+
+  /**
+   * Returns a hash code that is equal for equivalent names (see isEquivalent).
+   */
+  getEquivalenceHashCode(): number;
+
+  /**
+   * Returns a new mutable NameBuilder holding the components and syntax of this Name.
+   */
+  toBuilder(): NameBuilder;
+
+  /**
+   * Returns the delimiter of this Name.
    */
   getDelimiterCharacter(): string;
+
+  /**
+   * Returns the escape character of this Name.
+   */
+  getEscapeCharacter(): string;
 }
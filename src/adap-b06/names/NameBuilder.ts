@@ -0,0 +1,169 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { AbstractName } from "./AbstractName";
+import { NameEscaping } from "./NameEscaping";
+import { StringName } from "./StringName";
+import { StringArrayName } from "./StringArrayName";
+import { NameNormalization } from "./NameNormalization";
+import { NamePolicy } from "./NamePolicy";
+
+/**
+ * Mutable companion of the immutable Name: collects masked components in place,
+ * without allocating a new Name per step, and creates the Name at build().
+ *
+ * All mutating operations return this, so they can be chained:
+ *   new NameBuilder("/").push("usr").appendRaw("my files").build(StringName)
+ */
+export class NameBuilder {
+  protected readonly delimiter: string;
+  protected readonly escape: string;
+  protected readonly normalization: NameNormalization | null;
+  protected readonly policy: NamePolicy | null;
+
+  private components: string[] = [];
+
+  /**
+   * Returns a builder holding the components and syntax of name.
+   */
+  public static from(name: Name): NameBuilder {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    const normalization = name instanceof AbstractName ? name.getNormalization() : null;
+    const policy = name instanceof AbstractName ? name.getPolicy() : null;
+    const result = new NameBuilder(name.getDelimiterCharacter(), name.getEscapeCharacter(), normalization, policy);
+    for (let i = 0; i < name.getNoComponents(); i++) {
+      result.components.push(name.getComponent(i));
+    }
+    return result;
+  }
+
+  constructor(delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER, normalization: NameNormalization | null = null, policy: NamePolicy | null = null) {
+    if (delimiter == null || delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
+    if (escape == null || Array.from(escape).length !== 1) throw new IllegalArgumentException("escape character must be a single character");
+    if (delimiter.includes(escape)) throw new IllegalArgumentException("delimiter must not contain the escape character");
+    this.delimiter = delimiter;
+    this.escape = escape;
+    this.normalization = normalization;
+    this.policy = policy;
+  }
+
+  public getDelimiterCharacter(): string {
+    return this.delimiter;
+  }
+
+  public getEscapeCharacter(): string {
+    return this.escape;
+  }
+
+  public getNoComponents(): number {
+    return this.components.length;
+  }
+
+  public isEmpty(): boolean {
+    return this.components.length === 0;
+  }
+
+  public getComponent(i: number): string {
+    this.assertIndex(i, this.components.length);
+    return this.components[i];
+  }
+
+  // ---------- mutation: all return this ----------
+
+  /**
+   * Appends a masked component.
+   */
+  public push(c: string): NameBuilder {
+    this.assertMaskedComponent(c);
+    this.components.push(c);
+    return this;
+  }
+
+  /**
+   * Removes the last component; expects a non-empty builder.
+   */
+  public pop(): NameBuilder {
+    if (this.components.length === 0) throw new IllegalArgumentException("empty builder has no last component");
+    this.components.pop();
+    return this;
+  }
+
+  /**
+   * Inserts a masked component at index i, 0 <= i <= getNoComponents().
+   */
+  public insert(i: number, c: string): NameBuilder {
+    this.assertMaskedComponent(c);
+    if (!Number.isInteger(i) || i < 0 || i > this.components.length) {
+      throw new IllegalArgumentException("index out of range");
+    }
+    this.components.splice(i, 0, c);
+    return this;
+  }
+
+  /**
+   * Replaces the component at index i with a masked component.
+   */
+  public set(i: number, c: string): NameBuilder {
+    this.assertMaskedComponent(c);
+    this.assertIndex(i, this.components.length);
+    this.components[i] = c;
+    return this;
+  }
+
+  /**
+   * Appends an unmasked component, escaping it for this builder's delimiter.
+   */
+  public appendRaw(raw: string): NameBuilder {
+    if (typeof raw !== "string") throw new IllegalArgumentException("component must be a string");
+    this.components.push(NameEscaping.mask(raw, this.delimiter, this.escape));
+    return this;
+  }
+
+  /**
+   * Appends all components of a masked name string, e.g. "usr/local" for delimiter '/'.
+   * As for StringName, the empty string stands for no components.
+   */
+  public appendMasked(masked: string): NameBuilder {
+    if (typeof masked !== "string") throw new IllegalArgumentException("masked name must be a string");
+    const parsed = new StringName(masked, this.delimiter, this.escape);
+    for (let i = 0; i < parsed.getNoComponents(); i++) {
+      this.components.push(parsed.getComponent(i));
+    }
+    return this;
+  }
+
+  public clear(): NameBuilder {
+    this.components = [];
+    return this;
+  }
+
+  // ---------- building ----------
+
+  /**
+   * Returns a new Name of the given class holding the current components.
+   * The builder stays usable; later changes don't affect the returned name.
+   * Throws a NamePolicyException if the name violates the builder's policy.
+   */
+  public build(type: typeof StringName | typeof StringArrayName = StringArrayName): Name {
+    if (type === StringName) {
+      if (this.components.length === 1 && this.components[0] === "") {
+        throw new IllegalArgumentException("StringName can't hold a single empty component");
+      }
+      return new StringName(this.components.join(this.delimiter), this.delimiter, this.escape, this.normalization, this.policy);
+    }
+    if (type === StringArrayName) {
+      return new StringArrayName(this.components, this.delimiter, this.escape, this.normalization, this.policy);
+    }
+    throw new IllegalArgumentException("can only build StringName or StringArrayName");
+  }
+
+  private assertIndex(i: number, n: number): void {
+    if (!Number.isInteger(i)) throw new IllegalArgumentException("index must be integer");
+    if (i < 0 || i >= n) throw new IllegalArgumentException("index out of range");
+  }
+
+  private assertMaskedComponent(c: string): void {
+    if (typeof c !== "string") throw new IllegalArgumentException("component must be a string");
+    NameEscaping.assertMasked(c, this.delimiter, this.escape);
+  }
+}
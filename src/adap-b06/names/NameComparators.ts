@@ -0,0 +1,111 @@
+import { Comparator } from "../common/Comparable";
+import { Name } from "./Name";
+import { NameEscaping } from "./NameEscaping";
+
+/**
+ * Options for comparing name components.
+ */
+export interface CollationOptions {
+  /** Compare components ignoring case (default: false) */
+  caseInsensitive?: boolean;
+
+  /** Collate components using the rules of the given locale(s); default: UTF-16 code unit order */
+  locale?: string | string[];
+}
+
+/**
+ * Factory for orderings of Names.
+ *
+ * All comparators compare unmasked components and break ties with Name.compareTo(),
+ * so that they return 0 exactly for equal names (consistent with isEqual and getHashCode),
+ * even if the collation treats "A" and "a" alike.
+ */
+export class NameComparators {
+
+  /**
+   * Orders names component by component, starting with the first component.
+   */
+  public static lexicographic(options: CollationOptions = {}): Comparator<Name> {
+    const compare = NameComparators.createCollation(options);
+    return NameComparators.create((a, b) => NameComparators.compareComponents(a, b, compare));
+  }
+
+  /**
+   * Like lexicographic, but compares runs of digits within components by numeric value,
+   * so that "file2" comes before "file10".
+   */
+  public static natural(options: CollationOptions = {}): Comparator<Name> {
+    const collate = NameComparators.createCollation(options);
+    const compare = (a: string, b: string) => NameComparators.compareNatural(a, b, collate);
+    return NameComparators.create((a, b) => NameComparators.compareComponents(a, b, compare));
+  }
+
+  /**
+   * Orders names starting with the last component, as in sorted DNS zone listings:
+   * "com", "de", "fau.de", "cs.fau.de", "oss.cs.fau.de".
+   */
+  public static reverseDns(options: CollationOptions = {}): Comparator<Name> {
+    const compare = NameComparators.createCollation(options);
+    return NameComparators.create((a, b) => NameComparators.compareComponents(a.reverse(), b.reverse(), compare));
+  }
+
+  /**
+   * Returns the reverse ordering of comparator.
+   */
+  public static reversed(comparator: Comparator<Name>): Comparator<Name> {
+    return (a, b) => comparator(b, a);
+  }
+
+  private static create(compareRaw: (a: string[], b: string[]) => number): Comparator<Name> {
+    return (a: Name, b: Name) => {
+      const result = compareRaw(NameEscaping.getRawComponents(a), NameEscaping.getRawComponents(b));
+      return result !== 0 ? result : a.compareTo(b);
+    };
+  }
+
+  private static compareComponents(a: string[], b: string[], compare: (x: string, y: string) => number): number {
+    const n = Math.min(a.length, b.length);
+    for (let i = 0; i < n; i++) {
+      const result = compare(a[i], b[i]);
+      if (result !== 0) return result;
+    }
+    return a.length - b.length;
+  }
+
+  private static createCollation(options: CollationOptions): (a: string, b: string) => number {
+    if (options.locale !== undefined) {
+      const collator = new Intl.Collator(options.locale, { sensitivity: options.caseInsensitive ? "accent" : "variant" });
+      return (a, b) => collator.compare(a, b);
+    }
+    if (options.caseInsensitive) {
+      return (a, b) => NameComparators.compareCodeUnits(a.toLowerCase(), b.toLowerCase());
+    }
+    return NameComparators.compareCodeUnits;
+  }
+
+  private static compareCodeUnits(a: string, b: string): number {
+    return a === b ? 0 : (a < b ? -1 : 1);
+  }
+
+  /** Compares digit runs by numeric value and all other runs using collate */
+  private static compareNatural(a: string, b: string, collate: (x: string, y: string) => number): number {
+    const as = a.match(/\d+|\D+/g) ?? [];
+    const bs = b.match(/\d+|\D+/g) ?? [];
+    const n = Math.min(as.length, bs.length);
+    for (let i = 0; i < n; i++) {
+      const x = as[i];
+      const y = bs[i];
+      let result: number;
+      if (/^\d/.test(x) && /^\d/.test(y)) {
+        const xv = x.replace(/^0+(?=\d)/, "");
+        const yv = y.replace(/^0+(?=\d)/, "");
+        result = xv.length !== yv.length ? xv.length - yv.length : NameComparators.compareCodeUnits(xv, yv);
+      } else {
+        result = collate(x, y);
+      }
+      if (result !== 0) return result;
+    }
+    return as.length - bs.length;
+  }
+
+}
@@ -0,0 +1,80 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { NameEscaping } from "./NameEscaping";
+import { NameEdit } from "./NameEdit";
+import { NamePatch } from "./NamePatch";
+
+/**
+ * Differences between two names, as a shortest edit script over their components.
+ *
+ * Components are compared unmasked, so names of different implementations and with
+ * different delimiters can be compared, e.g. "usr/bin" and "usr.local.bin".
+ */
+export class NameDiff {
+  protected readonly edits: ReadonlyArray<NameEdit>;
+
+  /**
+   * Computes the edits that turn from into to.
+   */
+  public static compute(from: Name, to: Name): NameDiff {
+    if (from == null || to == null) throw new IllegalArgumentException("names must not be null");
+    return new NameDiff(NameDiff.computeEdits(NameEscaping.getRawComponents(from), NameEscaping.getRawComponents(to)));
+  }
+
+  constructor(edits: NameEdit[]) {
+    // NamePatch validates the edits
+    this.edits = new NamePatch(edits).getEdits();
+  }
+
+  public getEdits(): NameEdit[] {
+    return this.edits.map((e) => ({ ...e }));
+  }
+
+  public getNoEdits(): number {
+    return this.edits.length;
+  }
+
+  /**
+   * Returns true if both names have equal components.
+   */
+  public isEmpty(): boolean {
+    return this.edits.length === 0;
+  }
+
+  public toPatch(): NamePatch {
+    return new NamePatch(this.getEdits());
+  }
+
+  /**
+   * Computes a longest common subsequence and walks it from the front, preferring
+   * replace over a remove plus insert where that doesn't lengthen the script.
+   */
+  private static computeEdits(a: string[], b: string[]): NameEdit[] {
+    // lcs[i][j]: length of a longest common subsequence of a[i..] and b[j..]
+    const lcs: number[][] = [];
+    for (let i = a.length; i >= 0; i--) {
+      lcs[i] = new Array(b.length + 1).fill(0);
+      for (let j = b.length - 1; i < a.length && j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const result: NameEdit[] = [];
+    let i = 0;
+    let j = 0;
+    let index = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        i++; j++; index++;
+      } else if (i < a.length && j < b.length && lcs[i + 1][j + 1] === lcs[i][j]) {
+        result.push({ kind: "replace", index: index++, previous: a[i++], component: b[j++] });
+      } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        result.push({ kind: "insert", index: index++, component: b[j++] });
+      } else {
+        result.push({ kind: "remove", index: index, component: a[i++] });
+      }
+    }
+    return result;
+  }
+
+}
@@ -0,0 +1,12 @@
+/**
+ * One step of an edit script over name components.
+ *
+ * Indices refer to the name as it is when the step is applied, i.e. after all previous steps.
+ * Components are unmasked, so edit scripts don't depend on delimiter or escape character.
+ * Remove and replace steps record the component they expect, so that a patch can check
+ * it is applied to the name it was made for.
+ */
+export type NameEdit =
+  | { kind: "insert"; index: number; component: string }
+  | { kind: "remove"; index: number; component: string }
+  | { kind: "replace"; index: number; previous: string; component: string };
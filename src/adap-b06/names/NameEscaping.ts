@@ -0,0 +1,105 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { InvalidStateException } from "../common/InvalidStateException";
+import { Name } from "./Name";
+
+/**
+ * Converts name components between their raw (unmasked) and masked form.
+ *
+ * A masked component escapes the escape character itself and the first character of
+ * every occurrence of the delimiter, e.g. raw "a.b\c" is masked "a\.b\\c" for '.'.
+ * Masking works on Unicode code points, so the escape character may be any single code
+ * point. For multi-character delimiters like "aa", masking also covers a delimiter that
+ * would only form across the end of a component, as in raw "xa".
+ */
+export class NameEscaping {
+
+  /**
+   * Returns raw masked for delimiter and escape.
+   */
+  public static mask(raw: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER): string {
+    if (raw == null) throw new IllegalArgumentException("component must not be null");
+    let result = "";
+    for (let i = 0; i < raw.length; ) {
+      const ch = NameEscaping.codePointAt(raw, i);
+      if (ch === escape || NameEscaping.isDelimiterAt(raw, i, delimiter)) result += escape;
+      result += ch;
+      i += ch.length;
+    }
+    return result;
+  }
+
+  /**
+   * Returns masked without its escapes: turns '\x' into 'x'.
+   */
+  public static unmask(masked: string, escape: string = ESCAPE_CHARACTER): string {
+    if (masked == null) throw new IllegalArgumentException("component must not be null");
+    let result = "";
+    let escaped = false;
+    for (const ch of masked) {
+      if (!escaped && ch === escape) {
+        escaped = true;
+        continue;
+      }
+      result += ch;
+      escaped = false;
+    }
+    return result;
+  }
+
+  /**
+   * Returns true if masked contains no unescaped delimiter and no dangling escape.
+   */
+  public static isMasked(masked: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER): boolean {
+    try {
+      NameEscaping.assertMasked(masked, delimiter, escape);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Throws InvalidStateException if masked contains an unescaped delimiter or a dangling escape.
+   */
+  public static assertMasked(masked: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER): void {
+    if (masked == null) throw new IllegalArgumentException("component must not be null");
+    for (let i = 0; i < masked.length; ) {
+      const ch = NameEscaping.codePointAt(masked, i);
+      i += ch.length;
+      if (ch === escape) {
+        if (i >= masked.length) throw new InvalidStateException("dangling escape in component");
+        i += NameEscaping.codePointAt(masked, i).length;
+        continue;
+      }
+      if (NameEscaping.isDelimiterAt(masked, i - ch.length, delimiter)) throw new InvalidStateException("unmasked delimiter in component");
+    }
+  }
+
+  /**
+   * Returns the raw components of any Name, using its own escape character.
+   */
+  public static getRawComponents(name: Name): string[] {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    const escape = typeof name.getEscapeCharacter === "function" ? name.getEscapeCharacter() : ESCAPE_CHARACTER;
+    const result: string[] = [];
+    for (let i = 0; i < name.getNoComponents(); i++) {
+      result.push(NameEscaping.unmask(name.getComponent(i), escape));
+    }
+    return result;
+  }
+
+  /** Returns the code point starting at position i of s as a string (one or two code units) */
+  private static codePointAt(s: string, i: number): string {
+    return String.fromCodePoint(s.codePointAt(i) as number);
+  }
+
+  /**
+   * Returns true if a delimiter starts at position i of s, or would start there once s is
+   * followed by a delimiter (only possible for multi-character delimiters like "aa").
+   */
+  private static isDelimiterAt(s: string, i: number, delimiter: string): boolean {
+    if (s.startsWith(delimiter, i)) return true;
+    return s.length - i < delimiter.length && (s.substring(i) + delimiter).startsWith(delimiter);
+  }
+}
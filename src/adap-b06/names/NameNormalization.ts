@@ -0,0 +1,62 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+
+export type NormalizationForm = "NFC" | "NFD" | "NFKC" | "NFKD";
+
+/**
+ * Opt-in normalization of name components.
+ *
+ * A Name with a normalization stores its components in normalized form, so that
+ * canonically equivalent inputs (e.g. "é" as one code point or as "e" plus a combining
+ * accent) yield equal names with equal hash codes and equal serializations.
+ * Normalization applies to unmasked components, before masking.
+ */
+export class NameNormalization {
+
+  /** Unicode normalization, no case folding */
+  public static readonly NFC = new NameNormalization("NFC", false);
+  public static readonly NFKC = new NameNormalization("NFKC", false);
+
+  /** Unicode normalization plus case folding, for case-insensitive names */
+  public static readonly NFC_CASE_FOLDED = new NameNormalization("NFC", true);
+  public static readonly NFKC_CASE_FOLDED = new NameNormalization("NFKC", true);
+
+  protected readonly form: NormalizationForm | null;
+  protected readonly caseFolding: boolean;
+
+  /**
+   * @param form Unicode normalization form, or null for none
+   * @param caseFolding whether to fold case (full folding, e.g. "ß" becomes "ss")
+   */
+  constructor(form: NormalizationForm | null, caseFolding: boolean = false) {
+    if (form != null && !["NFC", "NFD", "NFKC", "NFKD"].includes(form)) {
+      throw new IllegalArgumentException("unknown normalization form: " + form);
+    }
+    this.form = form;
+    this.caseFolding = caseFolding;
+  }
+
+  public getForm(): NormalizationForm | null {
+    return this.form;
+  }
+
+  public isCaseFolding(): boolean {
+    return this.caseFolding;
+  }
+
+  /**
+   * Returns the normalized form of an unmasked component.
+   */
+  public apply(raw: string): string {
+    let result = this.form != null ? raw.normalize(this.form) : raw;
+    if (this.caseFolding) {
+      // upper-then-lower case approximates Unicode full case folding
+      result = result.toUpperCase().toLowerCase();
+      if (this.form != null) result = result.normalize(this.form);
+    }
+    return result;
+  }
+
+  public isEqual(other: NameNormalization | null): boolean {
+    return other != null && this.form === other.form && this.caseFolding === other.caseFolding;
+  }
+}
@@ -0,0 +1,97 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { NameEscaping } from "./NameEscaping";
+import { NameEdit } from "./NameEdit";
+
+/**
+ * An edit script that can be applied to names, e.g. one computed by NameDiff.
+ *
+ * A patch works on any Name implementation: components are masked for the delimiter and
+ * escape character of the name it is applied to, and the result is derived from that name
+ * through insert(), remove() and setComponent(), so it keeps its class and syntax.
+ */
+export class NamePatch {
+  protected readonly edits: ReadonlyArray<NameEdit>;
+
+  constructor(edits: NameEdit[]) {
+    if (edits == null) throw new IllegalArgumentException("edits must not be null");
+    this.edits = Object.freeze(edits.map((e) => NamePatch.copyEdit(e)));
+  }
+
+  public getEdits(): NameEdit[] {
+    return this.edits.map((e) => ({ ...e }));
+  }
+
+  public getNoEdits(): number {
+    return this.edits.length;
+  }
+
+  public isEmpty(): boolean {
+    return this.edits.length === 0;
+  }
+
+  /**
+   * Applies all edits in order and returns the resulting name.
+   * Throws IllegalArgumentException if an index is out of range or a removed or
+   * replaced component differs from the one recorded in the edit.
+   */
+  public applyTo(name: Name): Name {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    let result = name;
+    for (const edit of this.edits) {
+      const delimiter = result.getDelimiterCharacter();
+      const escape = result.getEscapeCharacter();
+      if (edit.kind === "insert") {
+        if (edit.index > result.getNoComponents()) throw new IllegalArgumentException("edit index out of range: " + edit.index);
+        result = result.insert(edit.index, NameEscaping.mask(edit.component, delimiter, escape));
+        continue;
+      }
+
+      if (edit.index >= result.getNoComponents()) throw new IllegalArgumentException("edit index out of range: " + edit.index);
+      const expected = edit.kind === "remove" ? edit.component : edit.previous;
+      if (NameEscaping.unmask(result.getComponent(edit.index), escape) !== expected) {
+        throw new IllegalArgumentException("patch does not apply: component " + edit.index + " is not \"" + expected + "\"");
+      }
+      if (edit.kind === "remove") {
+        result = result.remove(edit.index);
+      } else {
+        result = result.setComponent(edit.index, NameEscaping.mask(edit.component, delimiter, escape));
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the patch that undoes this one.
+   */
+  public invert(): NamePatch {
+    const inverted: NameEdit[] = [];
+    for (let i = this.edits.length - 1; i >= 0; i--) {
+      const e = this.edits[i];
+      if (e.kind === "insert") {
+        inverted.push({ kind: "remove", index: e.index, component: e.component });
+      } else if (e.kind === "remove") {
+        inverted.push({ kind: "insert", index: e.index, component: e.component });
+      } else {
+        inverted.push({ kind: "replace", index: e.index, previous: e.component, component: e.previous });
+      }
+    }
+    return new NamePatch(inverted);
+  }
+
+  private static copyEdit(e: NameEdit): NameEdit {
+    if (e == null) throw new IllegalArgumentException("edit must not be null");
+    if (!Number.isInteger(e.index) || e.index < 0) throw new IllegalArgumentException("edit index must be a non-negative integer");
+    if (typeof e.component !== "string") throw new IllegalArgumentException("edit component must be a string");
+    switch (e.kind) {
+      case "insert":
+      case "remove":
+        return Object.freeze({ kind: e.kind, index: e.index, component: e.component });
+      case "replace":
+        if (typeof e.previous !== "string") throw new IllegalArgumentException("previous component must be a string");
+        return Object.freeze({ kind: e.kind, index: e.index, previous: e.previous, component: e.component });
+      default:
+        throw new IllegalArgumentException("unknown edit kind: " + (e as { kind: unknown }).kind);
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { NameEscaping } from "./NameEscaping";
+
+/**
+ * A compiled glob pattern over Name components.
+ *
+ * The pattern is written like a masked name, e.g. "home.*.projects.**" or "usr/bin/l?".
+ * Within a component:
+ *  - '*' matches any sequence of characters
+ *  - '?' matches a single character
+ *  - '[abc]', '[a-z]' and '[!abc]' match one character of (or not of) a class
+ *  - the escape character makes the next character literal, including the delimiter
+ * A component consisting of "**" only matches any number of components, including none.
+ *
+ * Patterns match against unmasked components, so they work for any Name implementation.
+ */
+export class NamePattern {
+  private static readonly ANY_COMPONENTS = "**";
+
+  protected readonly source: string;
+  protected readonly delimiter: string;
+  protected readonly escape: string;
+
+  // null stands for "**"
+  private readonly matchers: ReadonlyArray<RegExp | null>;
+
+  public static compile(source: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER): NamePattern {
+    return new NamePattern(source, delimiter, escape);
+  }
+
+  constructor(source: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER) {
+    if (source == null) throw new IllegalArgumentException("pattern must not be null");
+    if (delimiter == null || delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
+    if (escape == null || Array.from(escape).length !== 1) throw new IllegalArgumentException("escape character must be a single character");
+    if (delimiter.includes(escape)) throw new IllegalArgumentException("delimiter must not contain the escape character");
+
+    this.source = source;
+    this.delimiter = delimiter;
+    this.escape = escape;
+    this.matchers = Object.freeze(this.split(source).map((c) => this.compileComponent(c)));
+  }
+
+  public getSource(): string {
+    return this.source;
+  }
+
+  public getDelimiterCharacter(): string {
+    return this.delimiter;
+  }
+
+  /**
+   * Returns true if name matches this pattern.
+   */
+  public matches(name: Name): boolean {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    return this.matchesRaw(NameEscaping.getRawComponents(name));
+  }
+
+  /**
+   * Returns true if the given unmasked components match this pattern.
+   */
+  public matchesRaw(components: string[]): boolean {
+    if (components == null) throw new IllegalArgumentException("components must not be null");
+
+    // memo[p][c]: does matchers[p..] match components[c..]?
+    const memo: (boolean | undefined)[][] = this.matchers.map(() => []);
+    const matchFrom = (p: number, c: number): boolean => {
+      if (p === this.matchers.length) return c === components.length;
+      const known = memo[p][c];
+      if (known !== undefined) return known;
+
+      const m = this.matchers[p];
+      let result: boolean;
+      if (m === null) {
+        result = matchFrom(p + 1, c) || (c < components.length && matchFrom(p, c + 1));
+      } else {
+        result = c < components.length && m.test(components[c]) && matchFrom(p + 1, c + 1);
+      }
+      memo[p][c] = result;
+      return result;
+    };
+    return matchFrom(0, 0);
+  }
+
+  public toString(): string {
+    return this.source;
+  }
+
+  // ---------- compilation ----------
+
+  /** Splits pattern into components, keeping escapes in place */
+  protected split(source: string): string[] {
+    if (source.length === 0) return [];
+
+    const parts: string[] = [];
+    let current = "";
+    for (let i = 0; i < source.length; ) {
+      const ch = String.fromCodePoint(source.codePointAt(i) as number);
+      if (ch === this.escape) {
+        if (i + ch.length >= source.length) throw new IllegalArgumentException("dangling escape in pattern");
+        const next = String.fromCodePoint(source.codePointAt(i + ch.length) as number);
+        current += ch + next;
+        i += ch.length + next.length;
+        continue;
+      }
+      if (source.startsWith(this.delimiter, i)) {
+        parts.push(current);
+        current = "";
+        i += this.delimiter.length;
+        continue;
+      }
+      current += ch;
+      i += ch.length;
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  protected compileComponent(component: string): RegExp | null {
+    if (component === NamePattern.ANY_COMPONENTS) return null;
+
+    const chars = Array.from(component);
+    let regex = "";
+    for (let i = 0; i < chars.length; i++) {
+      const ch = chars[i];
+      if (ch === this.escape) {
+        regex += NamePattern.quote(chars[++i]);
+      } else if (ch === "*") {
+        regex += ".*";
+      } else if (ch === "?") {
+        regex += ".";
+      } else if (ch === "[") {
+        const end = this.findClassEnd(chars, i);
+        regex += this.compileClass(chars.slice(i + 1, end));
+        i = end;
+      } else {
+        regex += NamePattern.quote(ch);
+      }
+    }
+    return new RegExp("^" + regex + "$", "su");
+  }
+
+  private findClassEnd(chars: string[], start: number): number {
+    // a ']' right after '[' or '[!' is a literal member of the class
+    let i = start + 1;
+    if (chars[i] === "!" || chars[i] === "^") i++;
+    if (chars[i] === "]") i++;
+    for (; i < chars.length; i++) {
+      if (chars[i] === this.escape) {
+        i++;
+      } else if (chars[i] === "]") {
+        return i;
+      }
+    }
+    throw new IllegalArgumentException("unterminated character class in pattern");
+  }
+
+  private compileClass(body: string[]): string {
+    let i = 0;
+    let result = "[";
+    if (body[0] === "!" || body[0] === "^") {
+      result += "^";
+      i++;
+    }
+    for (; i < body.length; i++) {
+      let ch = body[i];
+      if (ch === this.escape) ch = body[++i];
+      if (body[i + 1] === "-" && i + 2 < body.length) {
+        let to = body[i + 2];
+        i += 2;
+        if (to === this.escape) to = body[++i];
+        if (to < ch) throw new IllegalArgumentException("invalid range in character class");
+        result += NamePattern.quoteInClass(ch) + "-" + NamePattern.quoteInClass(to);
+      } else {
+        result += NamePattern.quoteInClass(ch);
+      }
+    }
+    return result + "]";
+  }
+
+  private static quote(ch: string): string {
+    return /[.*+?^${}()|[\]\\/]/.test(ch) ? "\\" + ch : ch;
+  }
+
+  private static quoteInClass(ch: string): string {
+    return /[\]\\^\-[]/.test(ch) ? "\\" + ch : ch;
+  }
+}
@@ -0,0 +1,202 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { NameEscaping } from "./NameEscaping";
+
+export type PolicyRule = "maxComponentLength" | "maxTotalLength" | "allowedCharacters" | "nonEmptyComponents" | "maxDepth" | "reservedWords";
+
+/**
+ * One reason why a name violates a policy.
+ */
+export interface PolicyViolation {
+  rule: PolicyRule;
+
+  /** Index of the offending component, or null if the rule concerns the name as a whole */
+  index: number | null;
+
+  /** The offending unmasked component, or null if the rule concerns the name as a whole */
+  component: string | null;
+
+  message: string;
+}
+
+export interface NamePolicyOptions {
+  /** Maximum length of a component, in code points */
+  maxComponentLength?: number;
+
+  /** Maximum length of the name as in asString(), in code points */
+  maxTotalLength?: number;
+
+  /** Single-character pattern that every character of every component must match, e.g. /[a-z0-9-]/i */
+  allowedCharacters?: RegExp;
+
+  /** Whether empty components are allowed (default: true) */
+  allowEmptyComponents?: boolean;
+
+  /** Whether a leading empty component denoting a root is allowed if empty components are not (default: false) */
+  allowRoot?: boolean;
+
+  /** Maximum number of components */
+  maxDepth?: number;
+
+  /** Components that must not be used; compared ignoring case and any "extension" after the first '.' */
+  reservedWords?: string[];
+}
+
+/**
+ * Exception for names that violate a NamePolicy; lists all violations.
+ */
+export class NamePolicyException extends IllegalArgumentException {
+  protected readonly policyName: string;
+  protected readonly violations: ReadonlyArray<PolicyViolation>;
+
+  constructor(policyName: string, violations: PolicyViolation[]) {
+    super("name violates policy " + policyName + ": " + violations.map((v) => v.message).join("; "));
+    this.policyName = policyName;
+    this.violations = Object.freeze(violations.map((v) => Object.freeze({ ...v })));
+  }
+
+  public getPolicyName(): string {
+    return this.policyName;
+  }
+
+  public getViolations(): PolicyViolation[] {
+    return [...this.violations];
+  }
+}
+
+/**
+ * Constraints on names beyond proper masking, e.g. DNS label rules or reserved file names.
+ *
+ * A Name constructed with a policy validates itself against it, and so does every name
+ * derived from it; violations raise a NamePolicyException (an IllegalArgumentException)
+ * that lists each violated rule. Policies check unmasked components.
+ */
+export class NamePolicy {
+
+  /** RFC 1035 host names: letters, digits and hyphens, labels of at most 63, names of at most 253 characters */
+  public static readonly DNS = new NamePolicy("DNS", {
+    maxComponentLength: 63,
+    maxTotalLength: 253,
+    allowedCharacters: /[A-Za-z0-9-]/,
+    allowEmptyComponents: false,
+    maxDepth: 127,
+  });
+
+  /** POSIX paths: no NUL characters, file names of at most 255 characters, a leading root */
+  public static readonly POSIX_PATH = new NamePolicy("POSIX_PATH", {
+    maxComponentLength: 255,
+    maxTotalLength: 4095,
+    allowedCharacters: /[^\0]/,
+    allowEmptyComponents: false,
+    allowRoot: true,
+  });
+
+  /** Windows paths without drive: no reserved characters or device names like CON and NUL */
+  public static readonly WINDOWS_PATH = new NamePolicy("WINDOWS_PATH", {
+    maxComponentLength: 255,
+    maxTotalLength: 260,
+    allowedCharacters: /[^<>:"/\\|?*\x00-\x1f]/,
+    allowEmptyComponents: false,
+    reservedWords: ["CON", "PRN", "AUX", "NUL",
+      "COM1", "COM2", "COM3", "COM4", "COM5", "COM6", "COM7", "COM8", "COM9",
+      "LPT1", "LPT2", "LPT3", "LPT4", "LPT5", "LPT6", "LPT7", "LPT8", "LPT9"],
+  });
+
+  protected readonly name: string;
+  protected readonly options: Readonly<NamePolicyOptions>;
+  private readonly reserved: ReadonlySet<string>;
+
+  constructor(name: string, options: NamePolicyOptions) {
+    if (name == null) throw new IllegalArgumentException("policy name must not be null");
+    if (options == null) throw new IllegalArgumentException("options must not be null");
+    for (const limit of [options.maxComponentLength, options.maxTotalLength, options.maxDepth]) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) throw new IllegalArgumentException("limits must be non-negative integers");
+    }
+    this.name = name;
+    this.options = Object.freeze({ ...options });
+    this.reserved = new Set((options.reservedWords ?? []).map((w) => w.toUpperCase()));
+  }
+
+  public getName(): string {
+    return this.name;
+  }
+
+  public getOptions(): NamePolicyOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Returns all violations of this policy by name; empty if name conforms.
+   */
+  public check(name: Name): PolicyViolation[] {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    const raw = NameEscaping.getRawComponents(name);
+    const result: PolicyViolation[] = [];
+    const length = this.options.maxTotalLength === undefined ? 0 : Array.from(raw.join(name.getDelimiterCharacter())).length;
+    this.checkSize(raw.length, length, result);
+    raw.forEach((c, i) => this.checkComponent(c, i, result));
+    return result;
+  }
+
+  /**
+   * Throws a NamePolicyException if a name violates this policy that ends in the unmasked
+   * component c and has noComponents components and totalLength characters in asString().
+   * Its other components are not checked, so names grown one component at a time can be
+   * validated in time independent of their length.
+   */
+  public validateLast(c: string, noComponents: number, totalLength: number): void {
+    if (c == null) throw new IllegalArgumentException("component must not be null");
+    const result: PolicyViolation[] = [];
+    this.checkSize(noComponents, totalLength, result);
+    this.checkComponent(c, noComponents - 1, result);
+    if (result.length > 0) throw new NamePolicyException(this.name, result);
+  }
+
+  public isValid(name: Name): boolean {
+    return this.check(name).length === 0;
+  }
+
+  /**
+   * Throws a NamePolicyException if name violates this policy.
+   */
+  public validate(name: Name): void {
+    const violations = this.check(name);
+    if (violations.length > 0) throw new NamePolicyException(this.name, violations);
+  }
+
+  protected checkSize(noComponents: number, totalLength: number, result: PolicyViolation[]): void {
+    const o = this.options;
+    if (o.maxDepth !== undefined && noComponents > o.maxDepth) {
+      result.push({ rule: "maxDepth", index: null, component: null, message: "more than " + o.maxDepth + " components" });
+    }
+    if (o.maxTotalLength !== undefined && totalLength > o.maxTotalLength) {
+      result.push({ rule: "maxTotalLength", index: null, component: null, message: "longer than " + o.maxTotalLength + " characters" });
+    }
+  }
+
+  protected checkComponent(c: string, i: number, result: PolicyViolation[]): void {
+    const o = this.options;
+    const violation = (rule: PolicyRule, message: string) => {
+      result.push({ rule: rule, index: i, component: c, message: "component " + i + " " + message });
+    };
+
+    if (c.length === 0) {
+      if (o.allowEmptyComponents === false && !(o.allowRoot === true && i === 0)) violation("nonEmptyComponents", "is empty");
+      return;
+    }
+
+    const chars = Array.from(c);
+    if (o.maxComponentLength !== undefined && chars.length > o.maxComponentLength) {
+      violation("maxComponentLength", "is longer than " + o.maxComponentLength + " characters");
+    }
+    if (o.allowedCharacters !== undefined) {
+      const allowed = o.allowedCharacters;
+      const bad = chars.find((ch) => { allowed.lastIndex = 0; return !allowed.test(ch); });
+      if (bad !== undefined) violation("allowedCharacters", "contains disallowed character " + JSON.stringify(bad));
+    }
+    if (this.reserved.size > 0) {
+      const base = c.split(".")[0].toUpperCase();
+      if (this.reserved.has(c.toUpperCase()) || this.reserved.has(base)) violation("reservedWords", "is reserved: " + c);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { AbstractName } from "./AbstractName";
+import { StringName } from "./StringName";
+import { StringArrayName } from "./StringArrayName";
+import { NameBuilder } from "./NameBuilder";
+import { NameEscaping } from "./NameEscaping";
+
+/**
+ * Interning factory for Names (hash-consing).
+ *
+ * A pool keeps all names it has handed out in a prefix tree: every pooled name is its
+ * parent plus one component, so names with a common prefix share it, and every component
+ * is stored once per position. Equal names from the same pool are the same object, so
+ * isEqual() degenerates to a reference comparison.
+ *
+ * Pooled names are immutable Names like any other; all derived names are interned too.
+ *
+ * A pool never forgets a name: its prefix tree keeps every name interned so far, and its
+ * prefixes, for as long as the pool is reachable. Use a pool per data set, e.g. per load,
+ * and drop it with its names to free the memory; getNoNames() tells how large it has grown.
+ */
+export class NamePool {
+  private readonly root: PooledName;
+
+  constructor(delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER) {
+    this.root = new PooledName(POOL_KEY, this, null, "", delimiter, escape);
+  }
+
+  public getDelimiterCharacter(): string {
+    return this.root.getDelimiterCharacter();
+  }
+
+  public getEscapeCharacter(): string {
+    return this.root.getEscapeCharacter();
+  }
+
+  /**
+   * Returns the pooled name equal to name; expects name to use the pool's delimiter.
+   */
+  public intern(name: Name): Name {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    if (name.getDelimiterCharacter() !== this.getDelimiterCharacter()) {
+      throw new IllegalArgumentException("name must use the pool's delimiter");
+    }
+    if (name instanceof PooledName && name.isFrom(this)) return name;
+    return this.root.lookupAll(name);
+  }
+
+  /**
+   * Parses a masked name string and returns the pooled name for it.
+   */
+  public of(source: string): Name {
+    return this.intern(new StringName(source, this.getDelimiterCharacter(), this.getEscapeCharacter()));
+  }
+
+  /**
+   * Returns the empty name of this pool.
+   */
+  public getEmptyName(): Name {
+    return this.root;
+  }
+
+  /**
+   * Returns the number of distinct names in this pool, including the empty name.
+   */
+  public getNoNames(): number {
+    return this.root.countNames();
+  }
+}
+
+// Passed to the PooledName constructor by this module only, so that all pooled names are interned
+const POOL_KEY: unique symbol = Symbol("NamePool");
+
+/**
+ * Name stored as a node of a NamePool's prefix tree; get one from NamePool.intern() or of().
+ * Constructing one elsewhere throws IllegalArgumentException.
+ */
+export class PooledName extends AbstractName {
+  private readonly pool: NamePool;
+  private readonly parent: PooledName | null;
+  private readonly component: string;
+  private readonly depth: number;
+  private readonly hashCode: number;
+  private children: Map<string, PooledName> | null = null;
+
+  constructor(key: symbol, pool: NamePool, parent: PooledName | null, component: string, delimiter: string, escape: string) {
+    super(delimiter, escape);
+    IllegalArgumentException.assert(key === POOL_KEY, "pooled names are created by their pool only");
+    this.pool = pool;
+    this.parent = parent;
+    this.component = component;
+    this.depth = parent == null ? 0 : parent.depth + 1;
+
+    // Same fold as AbstractName.getHashCode(), done incrementally along the prefix
+    this.hashCode = parent == null
+      ? AbstractName.hashStep(17, delimiter)
+      : AbstractName.hashStep(parent.hashCode, NameEscaping.unmask(component, escape));
+  }
+
+  public isFrom(pool: NamePool): boolean {
+    return this.pool === pool;
+  }
+
+  public getNoComponents(): number {
+    return this.depth;
+  }
+
+  public getComponent(i: number): string {
+    this.assertIndex(i, this.depth);
+    let node: PooledName = this;
+    for (let steps = this.depth - 1 - i; steps > 0; steps--) node = node.parent as PooledName;
+    return node.component;
+  }
+
+  public append(c: string): Name {
+    this.assertMaskedComponent(c);
+    return this.lookup(c);
+  }
+
+  public getParent(): Name {
+    if (this.parent == null) throw new IllegalArgumentException("empty name has no parent");
+    return this.parent;
+  }
+
+  public isEqual(other: Object): boolean {
+    if (other instanceof PooledName && other.pool === this.pool) return other === this;
+    return super.isEqual(other);
+  }
+
+  public getHashCode(): number {
+    return this.hashCode;
+  }
+
+  /** Returns the pooled name for this name plus all components of name */
+  public lookupAll(name: Name): PooledName {
+    const escape = name.getEscapeCharacter();
+    let node: PooledName = this;
+    for (let i = 0; i < name.getNoComponents(); i++) {
+      node = node.lookup(NameEscaping.unmask(name.getComponent(i), escape), false);
+    }
+    return node;
+  }
+
+  /** Returns the number of names in the subtree rooted at this name */
+  public countNames(): number {
+    let result = 0;
+    const pending: PooledName[] = [this];
+    while (pending.length > 0) {
+      const node = pending.pop() as PooledName;
+      result++;
+      if (node.children != null) {
+        for (const child of node.children.values()) pending.push(child);
+      }
+    }
+    return result;
+  }
+
+  public toBuilder(): NameBuilder {
+    return NameBuilder.from(this);
+  }
+
+  protected withComponents(components: string[]): Name {
+    let node: PooledName = this.pool.getEmptyName() as PooledName;
+    for (const c of components) node = node.lookup(c);
+    return node;
+  }
+
+  /** A pool has one delimiter, so names with another delimiter leave the pool */
+  protected withDelimiterAndComponents(delimiter: string, components: string[]): Name {
+    return new StringArrayName(components, delimiter, this.escape);
+  }
+
+  protected copyComponents(): string[] {
+    const parts: string[] = new Array(this.depth);
+    let node: PooledName = this;
+    for (let i = this.depth - 1; i >= 0; i--) {
+      parts[i] = node.component;
+      node = node.parent as PooledName;
+    }
+    return parts;
+  }
+
+  /**
+   * Returns the child for component c, creating it if necessary.
+   * Components are stored in canonical masking, so equal names map to the same child.
+   */
+  private lookup(c: string, masked: boolean = true): PooledName {
+    const raw = masked ? NameEscaping.unmask(c, this.escape) : c;
+    const key = NameEscaping.mask(raw, this.delimiter, this.escape);
+
+    if (this.children == null) this.children = new Map<string, PooledName>();
+    let child = this.children.get(key);
+    if (child === undefined) {
+      child = new PooledName(POOL_KEY, this.pool, this, key, this.delimiter, this.escape);
+      this.children.set(key, child);
+    }
+    return child;
+  }
+}
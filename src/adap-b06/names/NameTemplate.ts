@@ -0,0 +1,204 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "./Name";
+import { NameEscaping } from "./NameEscaping";
+import { StringArrayName } from "./StringArrayName";
+
+/** Literal text (unmasked) or a variable reference within a template component */
+type Segment = { literal: string } | { variable: string };
+
+export type TemplateValues = Map<string, string> | { [variable: string]: string };
+
+/**
+ * A name with variables, e.g. "home.${user}.projects.${proj}".
+ *
+ * The template is written like a masked name. A variable "${name}" may make up a whole
+ * component or part of one ("v${major}"); its name must be an identifier. The escape
+ * character makes the next character literal, so "\$" stands for a literal '$'.
+ * Two variables must not follow each other without literal text in between, so that
+ * match() can tell them apart.
+ *
+ * instantiate() substitutes unmasked values and masks them with NameEscaping.mask();
+ * match() reverses this and extracts the values from a concrete name.
+ */
+export class NameTemplate {
+  private static readonly VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+  protected readonly source: string;
+  protected readonly delimiter: string;
+  protected readonly escape: string;
+
+  private readonly components: ReadonlyArray<ReadonlyArray<Segment>>;
+  private readonly matchers: ReadonlyArray<RegExp>;
+
+  public static compile(source: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER): NameTemplate {
+    return new NameTemplate(source, delimiter, escape);
+  }
+
+  constructor(source: string, delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER) {
+    if (source == null) throw new IllegalArgumentException("template must not be null");
+    if (delimiter == null || delimiter.length === 0) throw new IllegalArgumentException("delimiter must not be empty");
+    if (escape == null || Array.from(escape).length !== 1) throw new IllegalArgumentException("escape character must be a single character");
+    if (delimiter.includes(escape)) throw new IllegalArgumentException("delimiter must not contain the escape character");
+
+    this.source = source;
+    this.delimiter = delimiter;
+    this.escape = escape;
+    this.components = Object.freeze(this.split(source).map((c) => Object.freeze(this.parseComponent(c))));
+    this.matchers = Object.freeze(this.components.map((segments) => NameTemplate.compileMatcher(segments)));
+  }
+
+  public getSource(): string {
+    return this.source;
+  }
+
+  public getDelimiterCharacter(): string {
+    return this.delimiter;
+  }
+
+  public getEscapeCharacter(): string {
+    return this.escape;
+  }
+
+  public getNoComponents(): number {
+    return this.components.length;
+  }
+
+  /**
+   * Returns the names of all variables, in order of first occurrence.
+   */
+  public getVariables(): string[] {
+    const result: string[] = [];
+    for (const segments of this.components) {
+      for (const s of segments) {
+        if ("variable" in s && !result.includes(s.variable)) result.push(s.variable);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the name with all variables replaced by the given unmasked values.
+   * Throws IllegalArgumentException if a variable has no value or a value has no variable.
+   */
+  public instantiate(values: TemplateValues): Name {
+    const lookup = NameTemplate.toMap(values);
+    const variables = this.getVariables();
+    for (const v of variables) {
+      if (!lookup.has(v)) throw new IllegalArgumentException("no value for variable: " + v);
+      if (typeof lookup.get(v) !== "string") throw new IllegalArgumentException("value of variable " + v + " must be a string");
+    }
+    for (const v of lookup.keys()) {
+      if (!variables.includes(v)) throw new IllegalArgumentException("unknown variable: " + v);
+    }
+
+    const parts = this.components.map((segments) => {
+      const raw = segments.map((s) => ("literal" in s ? s.literal : lookup.get(s.variable) as string)).join("");
+      return NameEscaping.mask(raw, this.delimiter, this.escape);
+    });
+    // StringArrayName, as a StringName can't hold a single empty component
+    return new StringArrayName(parts, this.delimiter, this.escape);
+  }
+
+  /**
+   * Returns the variable values for which this template yields name, or null if there are none.
+   * Works for names with any delimiter, as it compares unmasked components.
+   */
+  public match(name: Name): Map<string, string> | null {
+    if (name == null) throw new IllegalArgumentException("name must not be null");
+    if (name.getNoComponents() !== this.components.length) return null;
+
+    const result = new Map<string, string>();
+    for (let i = 0; i < this.components.length; i++) {
+      const groups = this.matchers[i].exec(NameEscaping.unmask(name.getComponent(i), name.getEscapeCharacter()));
+      if (groups === null) return null;
+
+      let g = 1;
+      for (const s of this.components[i]) {
+        if (!("variable" in s)) continue;
+        const value = groups[g++];
+        const known = result.get(s.variable);
+        if (known !== undefined && known !== value) return null;
+        result.set(s.variable, value);
+      }
+    }
+    return result;
+  }
+
+  public matches(name: Name): boolean {
+    return this.match(name) !== null;
+  }
+
+  public toString(): string {
+    return this.source;
+  }
+
+  // ---------- parsing ----------
+
+  /** Splits template into components, keeping escapes in place */
+  protected split(source: string): string[] {
+    if (source.length === 0) return [];
+
+    const parts: string[] = [];
+    let current = "";
+    for (let i = 0; i < source.length; ) {
+      const ch = String.fromCodePoint(source.codePointAt(i) as number);
+      if (ch === this.escape) {
+        if (i + ch.length >= source.length) throw new IllegalArgumentException("dangling escape in template");
+        const next = String.fromCodePoint(source.codePointAt(i + ch.length) as number);
+        current += ch + next;
+        i += ch.length + next.length;
+        continue;
+      }
+      if (source.startsWith(this.delimiter, i)) {
+        parts.push(current);
+        current = "";
+        i += this.delimiter.length;
+        continue;
+      }
+      current += ch;
+      i += ch.length;
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  protected parseComponent(component: string): Segment[] {
+    const chars = Array.from(component);
+    const segments: Segment[] = [];
+    let literal = "";
+    for (let i = 0; i < chars.length; i++) {
+      const ch = chars[i];
+      if (ch === this.escape) {
+        literal += chars[++i];
+      } else if (ch === "$" && chars[i + 1] === "{") {
+        const end = chars.indexOf("}", i + 2);
+        if (end < 0) throw new IllegalArgumentException("unterminated variable in template: " + component);
+        const variable = chars.slice(i + 2, end).join("");
+        if (!NameTemplate.VARIABLE_NAME.test(variable)) throw new IllegalArgumentException("invalid variable name: " + variable);
+        if (literal.length > 0) {
+          segments.push({ literal: literal });
+          literal = "";
+        } else if (segments.length > 0) {
+          throw new IllegalArgumentException("adjacent variables in template component: " + component);
+        }
+        segments.push({ variable: variable });
+        i = end;
+      } else {
+        literal += ch;
+      }
+    }
+    if (literal.length > 0 || segments.length === 0) segments.push({ literal: literal });
+    return segments;
+  }
+
+  private static compileMatcher(segments: ReadonlyArray<Segment>): RegExp {
+    const regex = segments.map((s) => ("literal" in s ? s.literal.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&") : "(.*)")).join("");
+    return new RegExp("^" + regex + "$", "su");
+  }
+
+  private static toMap(values: TemplateValues): Map<string, string> {
+    if (values == null) throw new IllegalArgumentException("values must not be null");
+    return values instanceof Map ? values : new Map(Object.entries(values));
+  }
+}
@@ -0,0 +1,124 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Punycode } from "./Punycode";
+
+/**
+ * A small excerpt of the Public Suffix List (https://publicsuffix.org/list/), in its
+ * file format: one rule per line, "//" comments, "*." wildcards and "!" exceptions.
+ */
+const BUNDLED_RULES = `
+// generic
+com
+org
+net
+edu
+gov
+info
+io
+dev
+app
+
+// country codes
+de
+at
+ch
+fr
+eu
+uk
+co.uk
+ac.uk
+gov.uk
+org.uk
+jp
+co.jp
+ac.jp
+公司.cn
+cn
+com.cn
+edu.cn
+au
+com.au
+edu.au
+
+// wildcards and exceptions
+*.ck
+!www.ck
+*.kawasaki.jp
+!city.kawasaki.jp
+
+// private domains
+github.io
+blogspot.com
+`;
+
+/**
+ * Rules deciding which domains are public suffixes, i.e. domains under which anyone may
+ * register names, like "de" or "co.uk".
+ *
+ * Implements the matching algorithm of the Public Suffix List: the longest matching rule
+ * wins, exception rules beat all others, and a name that matches no rule has its top-level
+ * domain as public suffix. Rules and labels are compared in lowercase ASCII form.
+ */
+export class PublicSuffixList {
+  private static bundled: PublicSuffixList | null = null;
+
+  private readonly rules: ReadonlySet<string>;
+  private readonly exceptions: ReadonlySet<string>;
+
+  /**
+   * Returns the list bundled with this package; a small excerpt covering common suffixes.
+   */
+  public static getBundled(): PublicSuffixList {
+    if (PublicSuffixList.bundled == null) {
+      PublicSuffixList.bundled = new PublicSuffixList(BUNDLED_RULES);
+    }
+    return PublicSuffixList.bundled;
+  }
+
+  /**
+   * @param source rules in Public Suffix List file format
+   */
+  constructor(source: string) {
+    if (source == null) throw new IllegalArgumentException("rules must not be null");
+    const rules = new Set<string>();
+    const exceptions = new Set<string>();
+    for (const line of source.split("\n")) {
+      const rule = line.trim().split(/\s/)[0];
+      if (rule.length === 0 || rule.startsWith("//")) continue;
+      if (rule.startsWith("!")) {
+        exceptions.add(PublicSuffixList.canonicalize(rule.substring(1)));
+      } else {
+        rules.add(PublicSuffixList.canonicalize(rule));
+      }
+    }
+    this.rules = rules;
+    this.exceptions = exceptions;
+  }
+
+  /**
+   * Returns true if the list has a rule for tld, an ASCII or Unicode top-level domain.
+   */
+  public isKnownTopLevelDomain(tld: string): boolean {
+    if (tld == null) throw new IllegalArgumentException("tld must not be null");
+    return this.rules.has(PublicSuffixList.canonicalize(tld));
+  }
+
+  /**
+   * Returns the number of trailing labels that form the public suffix of a domain name,
+   * given as lowercase ASCII labels; 0 for no labels.
+   */
+  public getPublicSuffixLength(labels: string[]): number {
+    if (labels == null) throw new IllegalArgumentException("labels must not be null");
+    let result = labels.length === 0 ? 0 : 1;
+    for (let n = 1; n <= labels.length; n++) {
+      const suffix = labels.slice(labels.length - n).join(".");
+      if (this.exceptions.has(suffix)) return n - 1;
+      const wildcard = ["*", ...labels.slice(labels.length - n + 1)].join(".");
+      if (this.rules.has(suffix) || this.rules.has(wildcard)) result = n;
+    }
+    return result;
+  }
+
+  private static canonicalize(domain: string): string {
+    return domain.split(".").map((label) => (label === "*" ? label : Punycode.toASCII(label).toLowerCase())).join(".");
+  }
+}
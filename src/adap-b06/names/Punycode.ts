@@ -0,0 +1,155 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+
+/**
+ * Punycode (RFC 3492) and the IDNA label conversion built on it.
+ *
+ * encode() and decode() convert between a Unicode string and its Punycode form without
+ * prefix; toASCII() and toUnicode() convert single domain labels and add or remove the
+ * "xn--" prefix as needed.
+ */
+export class Punycode {
+  public static readonly ACE_PREFIX = "xn--";
+
+  private static readonly BASE = 36;
+  private static readonly T_MIN = 1;
+  private static readonly T_MAX = 26;
+  private static readonly SKEW = 38;
+  private static readonly DAMP = 700;
+  private static readonly INITIAL_BIAS = 72;
+  private static readonly INITIAL_N = 0x80;
+  private static readonly MAX_INT = 0x7fffffff;
+
+  // longest Unicode label toASCII() converts; longer labels can't fit the 63 characters DNS
+  // allows per label, even after NFC composes combining characters
+  private static readonly MAX_LABEL_LENGTH = 4 * 63;
+
+  /**
+   * Returns the Punycode form of s, e.g. "bcher-kva" for "bücher".
+   */
+  public static encode(s: string): string {
+    if (s == null) throw new IllegalArgumentException("string must not be null");
+    const input = Array.from(s).map((ch) => ch.codePointAt(0) as number);
+    const basic = input.filter((c) => c < 0x80);
+    let output = String.fromCharCode(...basic);
+    let handled = basic.length;
+    if (basic.length > 0) output += "-";
+
+    let n = Punycode.INITIAL_N;
+    let delta = 0;
+    let bias = Punycode.INITIAL_BIAS;
+    while (handled < input.length) {
+      const m = Math.min(...input.filter((c) => c >= n));
+      if (m - n > Math.floor((Punycode.MAX_INT - delta) / (handled + 1))) throw new IllegalArgumentException("punycode overflow");
+      delta += (m - n) * (handled + 1);
+      n = m;
+
+      for (const c of input) {
+        if (c < n && ++delta > Punycode.MAX_INT) throw new IllegalArgumentException("punycode overflow");
+        if (c !== n) continue;
+        let q = delta;
+        for (let k = Punycode.BASE; ; k += Punycode.BASE) {
+          const t = Punycode.threshold(k, bias);
+          if (q < t) break;
+          output += Punycode.digit(t + ((q - t) % (Punycode.BASE - t)));
+          q = Math.floor((q - t) / (Punycode.BASE - t));
+        }
+        output += Punycode.digit(q);
+        bias = Punycode.adapt(delta, handled + 1, handled === basic.length);
+        delta = 0;
+        handled++;
+      }
+      delta++;
+      n++;
+    }
+    return output;
+  }
+
+  /**
+   * Returns the Unicode string of Punycode s; throws IllegalArgumentException if s is malformed.
+   */
+  public static decode(s: string): string {
+    if (s == null) throw new IllegalArgumentException("string must not be null");
+    const end = s.lastIndexOf("-");
+    const output: number[] = [];
+    for (let i = 0; i < Math.max(end, 0); i++) {
+      if (s.charCodeAt(i) >= 0x80) throw new IllegalArgumentException("invalid punycode: " + s);
+      output.push(s.charCodeAt(i));
+    }
+
+    let n = Punycode.INITIAL_N;
+    let i = 0;
+    let bias = Punycode.INITIAL_BIAS;
+    for (let pos = end > 0 ? end + 1 : 0; pos < s.length; ) {
+      const old = i;
+      let w = 1;
+      for (let k = Punycode.BASE; ; k += Punycode.BASE) {
+        if (pos >= s.length) throw new IllegalArgumentException("invalid punycode: " + s);
+        const d = Punycode.value(s.charCodeAt(pos++));
+        if (d >= Punycode.BASE || d > Math.floor((Punycode.MAX_INT - i) / w)) throw new IllegalArgumentException("invalid punycode: " + s);
+        i += d * w;
+        const t = Punycode.threshold(k, bias);
+        if (d < t) break;
+        w *= Punycode.BASE - t;
+      }
+      bias = Punycode.adapt(i - old, output.length + 1, old === 0);
+      n += Math.floor(i / (output.length + 1));
+      i %= output.length + 1;
+      if (n > 0x10ffff) throw new IllegalArgumentException("invalid punycode: " + s);
+      output.splice(i++, 0, n);
+    }
+    return String.fromCodePoint(...output);
+  }
+
+  /**
+   * Returns the ASCII form of a domain label: ASCII labels as is, others lowercased,
+   * NFC-normalized and Punycode-encoded with the "xn--" prefix. Unicode labels longer than
+   * MAX_LABEL_LENGTH UTF-16 code units are rejected before they are converted.
+   */
+  public static toASCII(label: string): string {
+    if (label == null) throw new IllegalArgumentException("label must not be null");
+    if (/^[\x00-\x7f]*$/.test(label)) return label;
+    if (label.length > Punycode.MAX_LABEL_LENGTH) throw new IllegalArgumentException("label too long: " + label.length + " characters");
+    return Punycode.ACE_PREFIX + Punycode.encode(label.normalize("NFC").toLowerCase());
+  }
+
+  /**
+   * Returns the Unicode form of a domain label: labels with the "xn--" prefix decoded, others as is.
+   */
+  public static toUnicode(label: string): string {
+    if (label == null) throw new IllegalArgumentException("label must not be null");
+    if (!label.toLowerCase().startsWith(Punycode.ACE_PREFIX)) return label;
+    return Punycode.decode(label.substring(Punycode.ACE_PREFIX.length).toLowerCase());
+  }
+
+  // ---------- helpers ----------
+
+  private static threshold(k: number, bias: number): number {
+    if (k <= bias) return Punycode.T_MIN;
+    if (k >= bias + Punycode.T_MAX) return Punycode.T_MAX;
+    return k - bias;
+  }
+
+  private static adapt(delta: number, points: number, first: boolean): number {
+    delta = first ? Math.floor(delta / Punycode.DAMP) : delta >> 1;
+    delta += Math.floor(delta / points);
+    let k = 0;
+    while (delta > ((Punycode.BASE - Punycode.T_MIN) * Punycode.T_MAX) >> 1) {
+      delta = Math.floor(delta / (Punycode.BASE - Punycode.T_MIN));
+      k += Punycode.BASE;
+    }
+    return k + Math.floor(((Punycode.BASE - Punycode.T_MIN + 1) * delta) / (delta + Punycode.SKEW));
+  }
+
+  /** Returns the basic code point for digit d: a-z for 0-25, 0-9 for 26-35 */
+  private static digit(d: number): string {
+    return String.fromCharCode(d < 26 ? 0x61 + d : 0x16 + d);
+  }
+
+  /** Returns the digit value of code point c, or BASE if c is no digit */
+  private static value(c: number): number {
+    if (c >= 0x30 && c <= 0x39) return c - 0x16;
+    if (c >= 0x41 && c <= 0x5a) return c - 0x41;
+    if (c >= 0x61 && c <= 0x7a) return c - 0x61;
+    return Punycode.BASE;
+  }
+}
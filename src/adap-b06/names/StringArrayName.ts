@@ -1,6 +1,11 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
 import { IllegalArgumentException } from "../common/IllegalArgumentException";
 import { Name } from "./Name";
 import { AbstractName } from "./AbstractName";
+import { NameNormalization } from "./NameNormalization";
+import { NamePolicy } from "./NamePolicy";
+import { NameBuilder } from "./NameBuilder";
+import { NameEscaping } from "./NameEscaping";
 
 /**
  * Immutable Name implementation backed by an array of masked components.
@@ -8,23 +13,35 @@ import { AbstractName } from "./AbstractName";
 export class StringArrayName extends AbstractName {
   private readonly components: ReadonlyArray<string>;
 
+  /**
+   * Returns a StringArrayName of the given unmasked components, masked for delimiter and escape.
+   */
+  public static fromRawComponents(raw: string[], delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER, normalization: NameNormalization | null = null, policy: NamePolicy | null = null): StringArrayName {
+    if (raw == null || !Array.isArray(raw)) throw new IllegalArgumentException("components must be an array");
+    return new StringArrayName(raw.map((r) => NameEscaping.mask(r, delimiter, escape)), delimiter, escape, normalization, policy);
+  }
+
   /**
    * @param source masked components (each component must be properly masked)
-   * @param delimiter single character delimiter
+   * @param delimiter delimiter, may consist of more than one character
+   * @param escape single character used for masking
+   * @param normalization optional normalization applied to all components
+   * @param policy optional constraints checked by this and every derived name
    */
-  constructor(source: string[], delimiter?: string) {
-    super(delimiter);
+  constructor(source: string[], delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null) {
+    super(delimiter, escape, normalization, policy);
 
     if (source == null) throw new IllegalArgumentException("source must not be null");
     if (!Array.isArray(source)) throw new IllegalArgumentException("source must be an array");
 
     // Validate that all components are properly masked for this delimiter
     for (const c of source) {
-      this.assertMaskedComponent(c, this.delimiter);
+      this.assertMaskedComponent(c);
     }
 
     // Immutable copy (no sharing)
-    this.components = Object.freeze([...source]);
+    this.components = Object.freeze(source.map((c) => this.normalizeComponent(c)));
+    this.assertPolicy();
   }
 
   public getNoComponents(): number {
@@ -38,9 +55,17 @@ export class StringArrayName extends AbstractName {
     return this.components[i];
   }
 
+  public toBuilder(): NameBuilder {
+    return NameBuilder.from(this);
+  }
+
   protected withComponents(components: string[]): Name {
     // components are already masked; create a new immutable value object
-    return new StringArrayName(components, this.delimiter);
+    return new StringArrayName(components, this.delimiter, this.escape, this.normalization, this.policy);
+  }
+
+  protected withDelimiterAndComponents(delimiter: string, components: string[]): Name {
+    return new StringArrayName(components, delimiter, this.escape, this.normalization, this.policy);
   }
 }
 
@@ -1,98 +1,216 @@
+import { DEFAULT_DELIMITER, ESCAPE_CHARACTER } from "../common/Printable";
 import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { InvalidStateException } from "../common/InvalidStateException";
 import { Name } from "./Name";
 import { AbstractName } from "./AbstractName";
+import { NameNormalization } from "./NameNormalization";
+import { NamePolicy } from "./NamePolicy";
+import { NameBuilder } from "./NameBuilder";
+import { NameEscaping } from "./NameEscaping";
 
 /**
  * Immutable Name implementation backed by a single masked string.
  *
  * The string is interpreted as a sequence of masked components separated
- * by the delimiter character, where the delimiter can appear inside a component
+ * by the delimiter, where the delimiter can appear inside a component
  * only if escaped using the escape character.
+ *
+ * The constructor only validates the string; it is split into an offset index on first
+ * access to a component, and components are returned as slices of the string. Names
+ * derived from a StringName reuse its validated components and index: getPrefix() and
+ * getParent() share both, append() extends them without re-parsing.
  */
 export class StringName extends AbstractName {
   private readonly maskedName: string;
-  private readonly components: ReadonlyArray<string>;
+
+  // offsets[i] is the start of component i, offsets[n] is maskedName.length + delimiter length;
+  // null until the first access to a component
+  private offsets: Uint32Array | null = null;
 
   /**
-   * @param source masked name string (may contain escaped delimiter characters)
-   * @param delimiter single character delimiter
+   * Returns a StringName of the given unmasked components, masked for delimiter and escape.
+   * A single empty component can't be represented and is rejected.
    */
-  constructor(source: string, delimiter?: string) {
-    super(delimiter);
+  public static fromRawComponents(raw: string[], delimiter: string = DEFAULT_DELIMITER, escape: string = ESCAPE_CHARACTER, normalization: NameNormalization | null = null, policy: NamePolicy | null = null): StringName {
+    if (raw == null || !Array.isArray(raw)) throw new IllegalArgumentException("components must be an array");
+    if (raw.length === 1 && raw[0] === "") throw new IllegalArgumentException("StringName can't hold a single empty component");
+    return new StringName(raw.map((r) => NameEscaping.mask(r, delimiter, escape)).join(delimiter), delimiter, escape, normalization, policy);
+  }
 
-    if (source == null) throw new IllegalArgumentException("source must not be null");
-    if (typeof source !== "string") throw new IllegalArgumentException("source must be a string");
+  /**
+   * @param source masked name string (may contain escaped delimiter characters)
+   * @param delimiter delimiter, may consist of more than one character
+   * @param escape single character used for masking
+   * @param normalization optional normalization applied to all components
+   * @param policy optional constraints checked by this and every derived name
+   */
+  constructor(source: string, delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null);
 
-    this.maskedName = source;
+  // Derived names pass an IndexedSource, whose string is valid and normalized already
+  constructor(source: string | IndexedSource, delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null) {
+    super(delimiter, escape, normalization, policy);
 
-    // Parse masked string into masked components safely (respecting escapes)
-    const parsed = StringName.parseMaskedName(source, this.delimiter);
+    if (source == null) throw new IllegalArgumentException("source must not be null");
 
-    // Validate each parsed component is properly masked for this delimiter
-    for (const c of parsed) {
-      this.assertMaskedComponent(c, this.delimiter);
+    if (source instanceof IndexedSource) {
+      this.maskedName = source.maskedName;
+      // "" stands for no components, as StringName can't hold a single empty component
+      this.offsets = source.maskedName.length === 0 ? null : source.offsets;
+    } else {
+      if (typeof source !== "string") throw new IllegalArgumentException("source must be a string");
+      StringName.validateMaskedName(source, this.delimiter, this.escape);
+
+      if (this.normalization == null) {
+        this.maskedName = source;
+      } else {
+        const offsets = StringName.parseOffsets(source, this.delimiter, this.escape);
+        const parts: string[] = [];
+        for (let i = 0; i + 1 < offsets.length; i++) {
+          parts.push(this.normalizeComponent(source.substring(offsets[i], offsets[i + 1] - this.delimiter.length)));
+        }
+        this.maskedName = parts.join(this.delimiter);
+        this.offsets = StringName.offsetsOf(parts, this.delimiter);
+      }
     }
-
-    this.components = Object.freeze(parsed);
+    this.assertPolicy();
   }
 
   public getNoComponents(): number {
-    return this.components.length;
+    return this.getOffsets().length - 1;
   }
 
   public getComponent(i: number): string {
+    const offsets = this.getOffsets();
     if (!Number.isInteger(i)) throw new IllegalArgumentException("index must be integer");
-    if (i < 0 || i >= this.components.length) throw new IllegalArgumentException("index out of range");
-    return this.components[i];
+    if (i < 0 || i >= offsets.length - 1) throw new IllegalArgumentException("index out of range");
+    return this.maskedName.substring(offsets[i], offsets[i + 1] - this.delimiter.length);
+  }
+
+  public append(c: string): Name {
+    this.assertMaskedComponent(c);
+    const masked = this.normalizeComponent(c);
+    const offsets = this.getOffsets();
+    const n = offsets.length - 1;
+
+    const joined = n === 0 ? masked : this.maskedName + this.delimiter + masked;
+    const extended = new Uint32Array(n + 2);
+    extended.set(offsets);
+    extended[n] = n === 0 ? 0 : offsets[n];
+    extended[n + 1] = joined.length + this.delimiter.length;
+    return this.withMaskedName(joined, extended);
+  }
+
+  public getPrefix(n: number): Name {
+    const offsets = this.getOffsets();
+    this.assertCount(n, offsets.length - 1);
+    if (n === 0) return this.withMaskedName("", null);
+    // the first n + 1 offsets index the first n components
+    return this.withMaskedName(this.maskedName.substring(0, offsets[n] - this.delimiter.length), offsets.subarray(0, n + 1));
+  }
+
+  public toBuilder(): NameBuilder {
+    return NameBuilder.from(this);
   }
 
   protected withComponents(components: string[]): Name {
-    // Join masked components using this delimiter (safe because components contain no unescaped delimiter)
-    const joined = components.length === 0 ? "" : components.join(this.delimiter);
-    return new StringName(joined, this.delimiter);
+    // Components are masked already (checked by the caller or taken from a valid name), so no re-parsing
+    const parts = this.normalization == null ? components : components.map((c) => this.normalizeComponent(c));
+    return this.withMaskedName(parts.join(this.delimiter), StringName.offsetsOf(parts, this.delimiter));
+  }
+
+  protected withDelimiterAndComponents(delimiter: string, components: string[]): Name {
+    const parts = this.normalization == null ? components : components.map((c) => this.normalizeComponent(c));
+    const source = new IndexedSource(parts.join(delimiter), StringName.offsetsOf(parts, delimiter));
+    return new (StringName as IndexedConstructor)(source, delimiter, this.escape, this.normalization, this.policy);
+  }
+
+  private withMaskedName(maskedName: string, offsets: Uint32Array | null): StringName {
+    const source = new IndexedSource(maskedName, offsets);
+    return new (StringName as IndexedConstructor)(source, this.delimiter, this.escape, this.normalization, this.policy);
+  }
+
+  private getOffsets(): Uint32Array {
+    if (this.offsets == null) {
+      this.offsets = StringName.parseOffsets(this.maskedName, this.delimiter, this.escape);
+    }
+    return this.offsets;
+  }
+
+  private static offsetsOf(parts: string[], delimiter: string): Uint32Array {
+    const offsets = new Uint32Array(parts.length + 1);
+    let start = 0;
+    for (let i = 0; i < parts.length; i++) {
+      offsets[i] = start;
+      start += parts[i].length + delimiter.length;
+    }
+    offsets[parts.length] = start;
+    return offsets;
   }
 
   /**
-   * Split masked name into masked components, where delimiter acts as separator
+   * Indexes the components of a valid masked name, where delimiter acts as separator
    * only when it is NOT escaped.
    *
    * Empty source string => empty component list (0 components).
    */
-  private static parseMaskedName(source: string, delimiter: string): string[] {
-    if (source.length === 0) return [];
-
-    const parts: string[] = [];
-    let current = "";
-
-    // We treat backslash escapes as "take next char literally"
-    for (let i = 0; i < source.length; i++) {
-      const ch = source[i];
-
-      if (ch === "\\") {
-        // keep escape + next char inside the masked component
-        current += ch;
+  private static parseOffsets(source: string, delimiter: string, escape: string): Uint32Array {
+    if (source.length === 0) return Uint32Array.of(delimiter.length);
+
+    const starts: number[] = [0];
+    for (let i = 0; i < source.length; ) {
+      if (source.startsWith(escape, i)) {
+        // take the next code point literally
+        i += escape.length;
+        i += (source.codePointAt(i) as number) > 0xffff ? 2 : 1;
+      } else if (source.startsWith(delimiter, i)) {
+        i += delimiter.length;
+        starts.push(i);
+      } else {
         i++;
-        if (i < source.length) {
-          current += source[i];
-        } else {
-          // dangling escape will be validated later by assertMaskedComponent
-          // keep it so validation can throw
-        }
-        continue;
       }
+    }
+    starts.push(source.length + delimiter.length);
+    return Uint32Array.from(starts);
+  }
 
-      if (ch === delimiter) {
-        parts.push(current);
-        current = "";
-        continue;
+  /**
+   * Validates a masked name in one pass, without splitting it: no dangling escape and,
+   * for multi-character delimiters, no delimiter formed across the end of the last component.
+   */
+  private static validateMaskedName(source: string, delimiter: string, escape: string): void {
+    let last = 0;
+    for (let i = 0; i < source.length; ) {
+      if (source.startsWith(escape, i)) {
+        i += escape.length;
+        if (i >= source.length) throw new InvalidStateException("dangling escape in component");
+        i += (source.codePointAt(i) as number) > 0xffff ? 2 : 1;
+      } else if (source.startsWith(delimiter, i)) {
+        i += delimiter.length;
+        last = i;
+      } else {
+        i++;
       }
-
-      current += ch;
     }
+    // earlier components end where a delimiter was found first, so only the last one can overlap
+    if (delimiter.length > 1) NameEscaping.assertMasked(source.substring(last), delimiter, escape);
+  }
+}
 
-    parts.push(current);
-    return parts;
+/**
+ * A valid, normalized masked name string with its offset index, handed from a StringName
+ * to the names derived from it, so that they need not validate and parse it again.
+ */
+class IndexedSource {
+  readonly maskedName: string;
+  readonly offsets: Uint32Array | null;
+
+  constructor(maskedName: string, offsets: Uint32Array | null) {
+    this.maskedName = maskedName;
+    this.offsets = offsets;
   }
 }
 
+/** The StringName constructor as implemented, including the overload for derived names */
+type IndexedConstructor = new (source: string | IndexedSource, delimiter?: string, escape?: string, normalization?: NameNormalization | null, policy?: NamePolicy | null) => StringName;
+
 export default StringName;
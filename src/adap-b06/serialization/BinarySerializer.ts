@@ -0,0 +1,237 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { JsonValue } from "./Serializer";
+import { TypeRegistry } from "./TypeRegistry";
+import { ValueCodec } from "./ValueCodec";
+import { createDefaultRegistry } from "./DefaultSerializers";
+
+enum Tag {
+  NULL = 0,
+  FALSE = 1,
+  TRUE = 2,
+  INTEGER = 3,
+  FLOAT = 4,
+  STRING = 5,
+  ARRAY = 6,
+  OBJECT = 7,
+  ENVELOPE = 8,
+}
+
+/**
+ * Reads and writes value objects in a compact binary format.
+ *
+ * Layout: the magic bytes 0xAD 0x06, the format version, then one tagged value.
+ * Integers in [-2^52, 2^52) are zigzag varints, other numbers float64, strings UTF-8 with
+ * a varint length.
+ * Value objects are written as ENVELOPE: type name, varint serializer version, data.
+ */
+export class BinarySerializer {
+  public static readonly MAGIC: ReadonlyArray<number> = [0xad, 0x06];
+  public static readonly FORMAT_VERSION = 1;
+
+  // zigzag doubles integers, so only these stay within the safe varint range
+  private static readonly MAX_VARINT_INTEGER = 2 ** 52;
+
+  protected readonly codec: ValueCodec;
+
+  constructor(registry: TypeRegistry = createDefaultRegistry()) {
+    this.codec = new ValueCodec(registry);
+  }
+
+  public encode(o: Object): Uint8Array {
+    const writer = new ByteWriter();
+    BinarySerializer.MAGIC.forEach((b) => writer.byte(b));
+    writer.varint(BinarySerializer.FORMAT_VERSION);
+    BinarySerializer.writeValue(writer, this.codec.encode(o));
+    return writer.toBytes();
+  }
+
+  public decode(bytes: Uint8Array): Object {
+    if (bytes == null) throw new IllegalArgumentException("bytes must not be null");
+    const reader = new ByteReader(bytes);
+    for (const b of BinarySerializer.MAGIC) {
+      if (reader.byte() !== b) throw new IllegalArgumentException("not a serialized value: bad magic");
+    }
+    const formatVersion = reader.varint();
+    if (formatVersion !== BinarySerializer.FORMAT_VERSION) {
+      throw new IllegalArgumentException("unsupported format version " + formatVersion);
+    }
+    const value = BinarySerializer.readValue(reader);
+    if (!reader.isAtEnd()) throw new IllegalArgumentException("trailing bytes after value");
+    return this.codec.decode(value) as Object;
+  }
+
+  private static writeValue(writer: ByteWriter, value: JsonValue): void {
+    if (value === null) {
+      writer.byte(Tag.NULL);
+    } else if (typeof value === "boolean") {
+      writer.byte(value ? Tag.TRUE : Tag.FALSE);
+    } else if (typeof value === "number") {
+      const limit = BinarySerializer.MAX_VARINT_INTEGER;
+      if (Number.isInteger(value) && value >= -limit && value < limit && !Object.is(value, -0)) {
+        writer.byte(Tag.INTEGER);
+        writer.varint(value < 0 ? -2 * value - 1 : 2 * value);
+      } else {
+        writer.byte(Tag.FLOAT);
+        writer.float64(value);
+      }
+    } else if (typeof value === "string") {
+      writer.byte(Tag.STRING);
+      writer.string(value);
+    } else if (Array.isArray(value)) {
+      writer.byte(Tag.ARRAY);
+      writer.varint(value.length);
+      value.forEach((v) => BinarySerializer.writeValue(writer, v));
+    } else if (ValueCodec.isEnvelope(value) && Object.keys(value).length === 3) {
+      writer.byte(Tag.ENVELOPE);
+      writer.string(value.type as string);
+      writer.varint(value.version as number);
+      BinarySerializer.writeValue(writer, value.data);
+    } else {
+      const keys = Object.keys(value);
+      writer.byte(Tag.OBJECT);
+      writer.varint(keys.length);
+      for (const key of keys) {
+        writer.string(key);
+        BinarySerializer.writeValue(writer, value[key]);
+      }
+    }
+  }
+
+  private static readValue(reader: ByteReader): JsonValue {
+    const tag = reader.byte();
+    switch (tag) {
+      case Tag.NULL:
+        return null;
+      case Tag.FALSE:
+        return false;
+      case Tag.TRUE:
+        return true;
+      case Tag.INTEGER: {
+        const n = reader.varint();
+        return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+      }
+      case Tag.FLOAT:
+        return reader.float64();
+      case Tag.STRING:
+        return reader.string();
+      case Tag.ARRAY: {
+        const result: JsonValue[] = [];
+        for (let n = reader.varint(); n > 0; n--) result.push(BinarySerializer.readValue(reader));
+        return result;
+      }
+      case Tag.OBJECT: {
+        const result: { [key: string]: JsonValue } = {};
+        for (let n = reader.varint(); n > 0; n--) {
+          const key = reader.string();
+          result[key] = BinarySerializer.readValue(reader);
+        }
+        return result;
+      }
+      case Tag.ENVELOPE: {
+        const type = reader.string();
+        const version = reader.varint();
+        return { type: type, version: version, data: BinarySerializer.readValue(reader) };
+      }
+      default:
+        throw new IllegalArgumentException("unknown tag " + tag);
+    }
+  }
+}
+
+class ByteWriter {
+  private buffer: Uint8Array = new Uint8Array(64);
+  private length: number = 0;
+
+  byte(b: number): void {
+    this.ensure(1);
+    this.buffer[this.length++] = b;
+  }
+
+  /** Unsigned LEB128, for non-negative safe integers */
+  varint(n: number): void {
+    while (n >= 0x80) {
+      this.byte((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.byte(n);
+  }
+
+  float64(n: number): void {
+    this.ensure(8);
+    new DataView(this.buffer.buffer).setFloat64(this.length, n, true);
+    this.length += 8;
+  }
+
+  string(s: string): void {
+    const bytes = new TextEncoder().encode(s);
+    this.varint(bytes.length);
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private ensure(n: number): void {
+    if (this.length + n <= this.buffer.length) return;
+    const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + n));
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+class ByteReader {
+  private readonly bytes: Uint8Array;
+  private offset: number = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.bytes[this.offset++];
+  }
+
+  varint(): number {
+    let result = 0;
+    let scale = 1;
+    for (;;) {
+      const b = this.byte();
+      result += (b & 0x7f) * scale;
+      if (!Number.isSafeInteger(result)) throw new IllegalArgumentException("varint out of range");
+      if ((b & 0x80) === 0) return result;
+      scale *= 0x80;
+    }
+  }
+
+  float64(): number {
+    this.need(8);
+    const result = new DataView(this.bytes.buffer, this.bytes.byteOffset).getFloat64(this.offset, true);
+    this.offset += 8;
+    return result;
+  }
+
+  string(): string {
+    const n = this.varint();
+    this.need(n);
+    let result: string;
+    try {
+      result = new TextDecoder("utf-8", { fatal: true }).decode(this.bytes.subarray(this.offset, this.offset + n));
+    } catch (e) {
+      throw new IllegalArgumentException("malformed UTF-8 string");
+    }
+    this.offset += n;
+    return result;
+  }
+
+  isAtEnd(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  private need(n: number): void {
+    if (this.offset + n > this.bytes.length) throw new IllegalArgumentException("unexpected end of data");
+  }
+}
@@ -0,0 +1,415 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Name } from "../names/Name";
+import { AbstractName } from "../names/AbstractName";
+import { StringName } from "../names/StringName";
+import { StringArrayName } from "../names/StringArrayName";
+import { LinkedName } from "../names/LinkedName";
+import { DomainName } from "../names/DomainName";
+import { NameEscaping } from "../names/NameEscaping";
+import { NameNormalization, NormalizationForm } from "../names/NameNormalization";
+import { NamePolicy, NamePolicyOptions } from "../names/NamePolicy";
+import { NamePool, PooledName } from "../names/NamePool";
+import { NameEdit } from "../names/NameEdit";
+import { NameDiff } from "../names/NameDiff";
+import { NamePatch } from "../names/NamePatch";
+import { Coordinate } from "../coordinates/Coordinate";
+import { CartesianCoordinate } from "../coordinates/CartesianCoordinate";
+import { PolarCoordinate } from "../coordinates/PolarCoordinate";
+import { QuantityUnit, SIUnit } from "../examples/QuantityUnit";
+import { Range, RangeBound } from "../examples/Ranges";
+import { PostalAddress } from "../examples/PostalAddress";
+import { JsonValue, SerializationContext, Serializer } from "./Serializer";
+import { TypeRegistry } from "./TypeRegistry";
+
+type JsonObject = { [key: string]: JsonValue };
+
+/**
+ * Returns a registry with serializers for all value types of this package.
+ */
+export function createDefaultRegistry(): TypeRegistry {
+  const registry = new TypeRegistry();
+  registry.register(StringName, new NameSerializer("StringName", (cs, d, e, n, p) => new StringName(cs.join(d), d, e, n, p)));
+  registry.register(StringArrayName, new NameSerializer("StringArrayName", (cs, d, e, n, p) => new StringArrayName(cs, d, e, n, p)));
+  registry.register(LinkedName, new NameSerializer("LinkedName", (cs, d, e, n, p) => new LinkedName(cs, d, e, n, p)));
+  registry.register(PooledName, new PooledNameSerializer());
+  registry.register(DomainName, new NameSerializer("DomainName", (cs, d, e) => DomainName.fromLabels(cs.map((c) => NameEscaping.unmask(c, e)))));
+  registry.register(NameDiff, new NameDiffSerializer());
+  registry.register(NamePatch, new NamePatchSerializer());
+  registry.register(CartesianCoordinate, new CartesianCoordinateSerializer());
+  registry.register(PolarCoordinate, new PolarCoordinateSerializer());
+  registry.register(SIUnit, new SIUnitSerializer());
+  registry.register(QuantityUnit, new QuantityUnitSerializer());
+  registry.register(RangeBound, new RangeBoundSerializer());
+  registry.register(Range, new RangeSerializer());
+  registry.register(PostalAddress, new PostalAddressSerializer());
+  return registry;
+}
+
+type NameFactory<T> = (components: string[], delimiter: string, escape: string, normalization: NameNormalization | null, policy: NamePolicy | null) => T;
+
+/**
+ * Stores the masked components of a name together with its syntax and policy, so that
+ * the name reads back with the same delimiter, escape character, normalization and policy.
+ * The predefined policies read back as themselves, others as equivalent new policies.
+ *
+ * Version 2 added the policy; version 1 data reads back without one.
+ */
+export class NameSerializer<T extends Name> implements Serializer<T> {
+  private static readonly PROFILES: ReadonlyArray<NamePolicy> = [NamePolicy.DNS, NamePolicy.POSIX_PATH, NamePolicy.WINDOWS_PATH];
+
+  protected readonly typeName: string;
+  protected readonly create: NameFactory<T>;
+
+  constructor(typeName: string, create: NameFactory<T>) {
+    this.typeName = typeName;
+    this.create = create;
+  }
+
+  public getTypeName(): string {
+    return this.typeName;
+  }
+
+  public getVersion(): number {
+    return 2;
+  }
+
+  public toData(o: T, context: SerializationContext): JsonValue {
+    const components: string[] = [];
+    for (let i = 0; i < o.getNoComponents(); i++) {
+      components.push(o.getComponent(i));
+    }
+    const normalization = o instanceof AbstractName ? o.getNormalization() : null;
+    const policy = o instanceof AbstractName ? o.getPolicy() : null;
+    return {
+      components: components,
+      delimiter: o.getDelimiterCharacter(),
+      escape: o.getEscapeCharacter(),
+      normalization: normalization == null ? null : { form: normalization.getForm(), caseFolding: normalization.isCaseFolding() },
+      policy: policy == null ? null : NameSerializer.writePolicy(policy),
+    };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): T {
+    const o = asObject(data);
+    const delimiter = asString(o.delimiter, "delimiter");
+    const escape = asString(o.escape, "escape");
+    const components = asArray(o.components, "components").map((c) => asString(c, "component"));
+    for (const c of components) {
+      if (!NameEscaping.isMasked(c, delimiter, escape)) throw new IllegalArgumentException("component is not masked: " + c);
+    }
+    const normalization = o.normalization == null ? null : NameSerializer.readNormalization(asObject(o.normalization));
+    const policy = o.policy == null ? null : NameSerializer.readPolicy(asObject(o.policy));
+    return this.create(components, delimiter, escape, normalization, policy);
+  }
+
+  private static readNormalization(o: JsonObject): NameNormalization {
+    const form = o.form == null ? null : asString(o.form, "form") as NormalizationForm;
+    if (typeof o.caseFolding !== "boolean") throw new IllegalArgumentException("caseFolding must be a boolean");
+    return new NameNormalization(form, o.caseFolding);
+  }
+
+  private static writePolicy(policy: NamePolicy): JsonValue {
+    if (NameSerializer.PROFILES.includes(policy)) return { profile: policy.getName() };
+
+    const options = policy.getOptions();
+    const result: JsonObject = {};
+    for (const key of ["maxComponentLength", "maxTotalLength", "maxDepth", "allowEmptyComponents", "allowRoot"] as const) {
+      if (options[key] !== undefined) result[key] = options[key];
+    }
+    if (options.allowedCharacters !== undefined) {
+      result.allowedCharacters = { source: options.allowedCharacters.source, flags: options.allowedCharacters.flags };
+    }
+    if (options.reservedWords !== undefined) result.reservedWords = options.reservedWords;
+    return { name: policy.getName(), options: result };
+  }
+
+  private static readPolicy(o: JsonObject): NamePolicy {
+    if (o.profile != null) {
+      const profile = asString(o.profile, "profile");
+      const result = NameSerializer.PROFILES.find((p) => p.getName() === profile);
+      if (result === undefined) throw new IllegalArgumentException("unknown policy profile: " + profile);
+      return result;
+    }
+
+    const data = asObject(o.options);
+    const options: NamePolicyOptions = {};
+    for (const key of ["maxComponentLength", "maxTotalLength", "maxDepth"] as const) {
+      if (data[key] != null) options[key] = asNumber(data[key], key);
+    }
+    for (const key of ["allowEmptyComponents", "allowRoot"] as const) {
+      if (data[key] != null) options[key] = asBoolean(data[key], key);
+    }
+    if (data.allowedCharacters != null) {
+      const pattern = asObject(data.allowedCharacters);
+      options.allowedCharacters = asRegExp(asString(pattern.source, "source"), asString(pattern.flags, "flags"));
+    }
+    if (data.reservedWords != null) {
+      options.reservedWords = asArray(data.reservedWords, "reservedWords").map((w) => asString(w, "reserved word"));
+    }
+    return new NamePolicy(asString(o.name, "policy name"), options);
+  }
+}
+
+/**
+ * Reads pooled names back into one pool per delimiter and escape character, owned by
+ * this serializer; so names read by the same serializer are pooled together.
+ */
+export class PooledNameSerializer extends NameSerializer<Name> {
+  private readonly pools: Map<string, NamePool> = new Map();
+
+  constructor() {
+    super("PooledName", (cs, d, e) => this.getPool(d, e).intern(new StringArrayName(cs, d, e)));
+  }
+
+  private getPool(delimiter: string, escape: string): NamePool {
+    const key = JSON.stringify([delimiter, escape]);
+    let result = this.pools.get(key);
+    if (result === undefined) {
+      result = new NamePool(delimiter, escape);
+      this.pools.set(key, result);
+    }
+    return result;
+  }
+}
+
+export class NameDiffSerializer implements Serializer<NameDiff> {
+
+  public getTypeName(): string {
+    return "NameDiff";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: NameDiff, context: SerializationContext): JsonValue {
+    return { edits: o.getEdits() };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): NameDiff {
+    return new NameDiff(readEdits(asObject(data).edits));
+  }
+}
+
+export class NamePatchSerializer implements Serializer<NamePatch> {
+
+  public getTypeName(): string {
+    return "NamePatch";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: NamePatch, context: SerializationContext): JsonValue {
+    return { edits: o.getEdits() };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): NamePatch {
+    return new NamePatch(readEdits(asObject(data).edits));
+  }
+}
+
+export class CartesianCoordinateSerializer implements Serializer<Coordinate> {
+
+  public getTypeName(): string {
+    return "CartesianCoordinate";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: Coordinate, context: SerializationContext): JsonValue {
+    return { x: o.getX(), y: o.getY() };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): Coordinate {
+    const o = asObject(data);
+    return new CartesianCoordinate(asNumber(o.x, "x"), asNumber(o.y, "y"));
+  }
+}
+
+export class PolarCoordinateSerializer implements Serializer<Coordinate> {
+
+  public getTypeName(): string {
+    return "PolarCoordinate";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: Coordinate, context: SerializationContext): JsonValue {
+    return { r: o.getR(), phi: o.getPhi() };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): Coordinate {
+    const o = asObject(data);
+    return new PolarCoordinate(asNumber(o.r, "r"), asNumber(o.phi, "phi"));
+  }
+}
+
+export class SIUnitSerializer implements Serializer<SIUnit> {
+
+  public getTypeName(): string {
+    return "SIUnit";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: SIUnit, context: SerializationContext): JsonValue {
+    return { exponents: o.getExponents() };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): SIUnit {
+    const exponents = asArray(asObject(data).exponents, "exponents").map((e) => asNumber(e, "exponent"));
+    if (exponents.length !== 7) throw new IllegalArgumentException("SIUnit needs 7 exponents");
+    return new SIUnit(exponents);
+  }
+}
+
+export class QuantityUnitSerializer implements Serializer<QuantityUnit> {
+
+  public getTypeName(): string {
+    return "QuantityUnit";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: QuantityUnit, context: SerializationContext): JsonValue {
+    return { value: o.getValue(), unit: context.encode(o.getUnit()) };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): QuantityUnit {
+    const o = asObject(data);
+    const unit = context.decode(o.unit);
+    if (!(unit instanceof SIUnit)) throw new IllegalArgumentException("unit must be an SIUnit");
+    return new QuantityUnit(asNumber(o.value, "value"), unit);
+  }
+}
+
+/**
+ * Bound values may be primitives or any registered value object.
+ */
+export class RangeBoundSerializer implements Serializer<RangeBound<unknown>> {
+
+  public getTypeName(): string {
+    return "RangeBound";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: RangeBound<unknown>, context: SerializationContext): JsonValue {
+    return { value: context.encode(o.getValue()), inclusive: o.isInclusive() };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): RangeBound<unknown> {
+    const o = asObject(data);
+    if (typeof o.inclusive !== "boolean") throw new IllegalArgumentException("inclusive must be a boolean");
+    return new RangeBound(context.decode(o.value), o.inclusive);
+  }
+}
+
+export class RangeSerializer implements Serializer<Range<unknown>> {
+
+  public getTypeName(): string {
+    return "Range";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: Range<unknown>, context: SerializationContext): JsonValue {
+    return { lower: context.encode(o.getLowerBound()), upper: context.encode(o.getUpperBound()) };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): Range<unknown> {
+    const o = asObject(data);
+    const lower = context.decode(o.lower);
+    const upper = context.decode(o.upper);
+    if (!(lower instanceof RangeBound) || !(upper instanceof RangeBound)) {
+      throw new IllegalArgumentException("range bounds must be RangeBounds");
+    }
+    return new Range(lower, upper);
+  }
+}
+
+export class PostalAddressSerializer implements Serializer<PostalAddress> {
+
+  public getTypeName(): string {
+    return "PostalAddress";
+  }
+
+  public getVersion(): number {
+    return 1;
+  }
+
+  public toData(o: PostalAddress, context: SerializationContext): JsonValue {
+    return {
+      street: o.getStreet(),
+      city: o.getCity(),
+      state: o.getState(),
+      postalCode: o.getPostalCode(),
+      country: o.getCountry(),
+    };
+  }
+
+  public fromData(data: JsonValue, version: number, context: SerializationContext): PostalAddress {
+    const o = asObject(data);
+    return new PostalAddress(
+      asString(o.street, "street"),
+      asString(o.city, "city"),
+      asString(o.state, "state"),
+      asString(o.postalCode, "postalCode"),
+      asString(o.country, "country"),
+    );
+  }
+}
+
+// ---------- data access ----------
+
+function asObject(data: JsonValue | undefined): JsonObject {
+  if (data == null || typeof data !== "object" || Array.isArray(data)) throw new IllegalArgumentException("data must be an object");
+  return data;
+}
+
+function asArray(data: JsonValue | undefined, field: string): JsonValue[] {
+  if (!Array.isArray(data)) throw new IllegalArgumentException(field + " must be an array");
+  return data;
+}
+
+/** Edits are checked by the NameDiff and NamePatch constructors */
+function readEdits(data: JsonValue | undefined): NameEdit[] {
+  return asArray(data, "edits").map((e) => asObject(e) as unknown as NameEdit);
+}
+
+function asString(data: JsonValue | undefined, field: string): string {
+  if (typeof data !== "string") throw new IllegalArgumentException(field + " must be a string");
+  return data;
+}
+
+function asNumber(data: JsonValue | undefined, field: string): number {
+  if (typeof data !== "number") throw new IllegalArgumentException(field + " must be a number");
+  return data;
+}
+
+function asBoolean(data: JsonValue | undefined, field: string): boolean {
+  if (typeof data !== "boolean") throw new IllegalArgumentException(field + " must be a boolean");
+  return data;
+}
+
+function asRegExp(source: string, flags: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    throw new IllegalArgumentException("invalid pattern /" + source + "/" + flags + ": " + (e as Error).message);
+  }
+}
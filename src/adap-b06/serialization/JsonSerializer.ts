@@ -0,0 +1,34 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { JsonValue } from "./Serializer";
+import { TypeRegistry } from "./TypeRegistry";
+import { ValueCodec } from "./ValueCodec";
+import { createDefaultRegistry } from "./DefaultSerializers";
+
+/**
+ * Reads and writes value objects as JSON text.
+ *
+ * Every value object is written as {"type": ..., "version": ..., "data": ...}, so that
+ * the exact type (e.g. StringName vs. StringArrayName) survives a round trip.
+ */
+export class JsonSerializer {
+  protected readonly codec: ValueCodec;
+
+  constructor(registry: TypeRegistry = createDefaultRegistry()) {
+    this.codec = new ValueCodec(registry);
+  }
+
+  public toJSON(o: Object): string {
+    return JSON.stringify(this.codec.encode(o));
+  }
+
+  public fromJSON(s: string): Object {
+    if (s == null) throw new IllegalArgumentException("json must not be null");
+    let value: JsonValue;
+    try {
+      value = JSON.parse(s);
+    } catch (e) {
+      throw new IllegalArgumentException("malformed json: " + (e as Error).message);
+    }
+    return this.codec.decode(value) as Object;
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Tree of plain data that maps one-to-one onto JSON.
+ */
+export type JsonValue = null | boolean | number | string | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * Serialized form of a value object: its registered type name, the version
+ * of the serializer that wrote it, and the type-specific data.
+ */
+export interface Envelope {
+  type: string;
+  version: number;
+  data: JsonValue;
+}
+
+/**
+ * Gives serializers access to the registry, for fields that hold further value objects.
+ */
+export interface SerializationContext {
+
+  /**
+   * Returns the serialized form of value: primitives and arrays as is,
+   * registered value objects as envelopes.
+   */
+  encode(value: unknown): JsonValue;
+
+  /**
+   * Reverses encode().
+   */
+  decode(value: JsonValue): unknown;
+}
+
+/**
+ * Converts the value objects of one class from and to plain data.
+ */
+export interface Serializer<T> {
+
+  /**
+   * Returns the type name stored in envelopes; must be unique within a registry.
+   */
+  getTypeName(): string;
+
+  /**
+   * Returns the version of the data written by toData().
+   */
+  getVersion(): number;
+
+  toData(o: T, context: SerializationContext): JsonValue;
+
+  /**
+   * Reads data written by toData() of the given (current or earlier) version.
+   * Throws IllegalArgumentException on malformed data.
+   */
+  fromData(data: JsonValue, version: number, context: SerializationContext): T;
+}
@@ -0,0 +1,53 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Serializer } from "./Serializer";
+
+export type Class<T> = abstract new (...args: never[]) => T;
+
+/**
+ * Registry of serializers, by class (for writing) and by type name (for reading).
+ */
+export class TypeRegistry {
+  private byClass: Map<Function, Serializer<unknown>> = new Map();
+  private byName: Map<string, Serializer<unknown>> = new Map();
+
+  public register<T>(cls: Class<T>, serializer: Serializer<T>): void {
+    if (cls == null) throw new IllegalArgumentException("class must not be null");
+    if (serializer == null) throw new IllegalArgumentException("serializer must not be null");
+    if (this.byClass.has(cls)) throw new IllegalArgumentException("class already registered: " + cls.name);
+    if (this.byName.has(serializer.getTypeName())) {
+      throw new IllegalArgumentException("type name already registered: " + serializer.getTypeName());
+    }
+    this.byClass.set(cls, serializer);
+    this.byName.set(serializer.getTypeName(), serializer);
+  }
+
+  public hasSerializerFor(o: Object): boolean {
+    return this.findSerializerFor(o) !== undefined;
+  }
+
+  /**
+   * Returns the serializer of the class of o, or of its closest registered superclass.
+   */
+  public getSerializerFor(o: Object): Serializer<unknown> {
+    const result = this.findSerializerFor(o);
+    if (result === undefined) {
+      throw new IllegalArgumentException("no serializer registered for " + o?.constructor?.name);
+    }
+    return result;
+  }
+
+  public getSerializerByName(typeName: string): Serializer<unknown> {
+    const result = this.byName.get(typeName);
+    if (result === undefined) throw new IllegalArgumentException("unknown type name: " + typeName);
+    return result;
+  }
+
+  private findSerializerFor(o: Object): Serializer<unknown> | undefined {
+    if (o == null || typeof o !== "object") return undefined;
+    for (let p = Object.getPrototypeOf(o); p != null; p = Object.getPrototypeOf(p)) {
+      const result = this.byClass.get(p.constructor);
+      if (result !== undefined) return result;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,54 @@
+import { IllegalArgumentException } from "../common/IllegalArgumentException";
+import { Envelope, JsonValue, SerializationContext } from "./Serializer";
+import { TypeRegistry } from "./TypeRegistry";
+
+/**
+ * Maps value objects to trees of plain data and back, using the serializers of a registry.
+ * Shared by the JSON and the binary serializer, which only differ in how they store the tree.
+ */
+export class ValueCodec implements SerializationContext {
+  protected readonly registry: TypeRegistry;
+
+  constructor(registry: TypeRegistry) {
+    if (registry == null) throw new IllegalArgumentException("registry must not be null");
+    this.registry = registry;
+  }
+
+  public encode(value: unknown): JsonValue {
+    if (value === null || typeof value === "boolean" || typeof value === "string") return value;
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) throw new IllegalArgumentException("can't serialize non-finite number");
+      return value;
+    }
+    if (Array.isArray(value)) return value.map((v) => this.encode(v));
+    if (typeof value === "object" && this.registry.hasSerializerFor(value)) {
+      const serializer = this.registry.getSerializerFor(value);
+      const envelope: Envelope = {
+        type: serializer.getTypeName(),
+        version: serializer.getVersion(),
+        data: serializer.toData(value, this),
+      };
+      return envelope as unknown as JsonValue;
+    }
+    const type = typeof value === "object" ? value.constructor?.name : undefined;
+    throw new IllegalArgumentException("can't serialize value of type " + (type ?? typeof value));
+  }
+
+  public decode(value: JsonValue): unknown {
+    if (value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map((v) => this.decode(v));
+    if (!ValueCodec.isEnvelope(value)) throw new IllegalArgumentException("malformed envelope");
+
+    const envelope = value as unknown as Envelope;
+    const serializer = this.registry.getSerializerByName(envelope.type);
+    if (!Number.isInteger(envelope.version) || envelope.version < 1 || envelope.version > serializer.getVersion()) {
+      throw new IllegalArgumentException("unsupported version " + envelope.version + " of type " + envelope.type);
+    }
+    return serializer.fromData(envelope.data, envelope.version, this);
+  }
+
+  public static isEnvelope(value: JsonValue): boolean {
+    if (value === null || typeof value !== "object" || Array.isArray(value)) return false;
+    return typeof value.type === "string" && typeof value.version === "number" && "data" in value;
+  }
+}
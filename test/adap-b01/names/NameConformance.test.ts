@@ -0,0 +1,8 @@
+import { Name } from "../../../src/adap-b01/names/Name";
+import { describeNameConformance } from "../../conformance/NameConformance";
+
+describeNameConformance({
+  label: "Name",
+  create: (masked, delimiter) => new Name(masked, delimiter),
+  immutable: false,
+});
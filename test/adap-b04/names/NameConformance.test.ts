@@ -0,0 +1,20 @@
+import { StringName } from "../../../src/adap-b04/names/StringName";
+import { StringArrayName } from "../../../src/adap-b04/names/StringArrayName";
+import { NameImplementation, describeNameConformance, describeNameParity } from "../../conformance/NameConformance";
+
+const implementations: NameImplementation[] = [
+  {
+    label: "StringName",
+    create: (masked, delimiter) => new StringName(masked.join(delimiter), delimiter),
+    parse: (source, delimiter) => new StringName(source, delimiter),
+    immutable: false,
+  },
+  {
+    label: "StringArrayName",
+    create: (masked, delimiter) => new StringArrayName(masked, delimiter),
+    immutable: false,
+  },
+];
+
+implementations.forEach((impl) => describeNameConformance(impl));
+describeNameParity("StringName and StringArrayName", implementations);
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+
+import { ServiceFailureException } from "../../../src/adap-b05/common/ServiceFailureException";
+
+import { Node } from "../../../src/adap-b05/files/Node";
+import { File } from "../../../src/adap-b05/files/File";
+import { Link } from "../../../src/adap-b05/files/Link";
+import { Directory } from "../../../src/adap-b05/files/Directory";
+import { RootNode } from "../../../src/adap-b05/files/RootNode";
+import { NodeExistsException } from "../../../src/adap-b05/files/NodeExistsException";
+
+import { NamePattern } from "../../../src/adap-b06/names/NamePattern";
+
+function baseNames(nodes: Node[]): string[] {
+  return nodes.map((n) => n.getBaseName());
+}
+
+describe("Unique child names test", () => {
+  it("test no two children of the same name", () => {
+    let rn: RootNode = new RootNode();
+    let bin: Directory = new Directory("bin", rn);
+    let ls: File = new File("ls", bin);
+
+    expect(() => new File("ls", bin)).toThrow(NodeExistsException);
+    expect(() => new Directory("ls", bin)).toThrow(ServiceFailureException);
+    expect(bin.getChild("ls")).toBe(ls);
+    expect(bin.list().length).toBe(1);
+
+    try {
+      new Link("ls", bin, rn);
+      expect.unreachable();
+    } catch (e) {
+      expect((e as NodeExistsException).getPath()).toBe("/bin/ls");
+    }
+  });
+
+  it("test rename keeps names unique", () => {
+    let rn: RootNode = new RootNode();
+    let bin: Directory = rn.mkdir("bin");
+    let ls: File = bin.touch("ls");
+    let vi: File = bin.touch("vi");
+
+    expect(() => vi.rename("ls")).toThrow(NodeExistsException);
+    expect(vi.getBaseName()).toBe("vi");
+    expect(bin.getChild("vi")).toBe(vi);
+
+    vi.rename("vim");
+    expect(bin.getChild("vi")).toBeNull();
+    expect(bin.getChild("vim")).toBe(vi);
+    expect(bin.hasChildNode(vi)).toBe(true);
+    expect(rn.lookup("/bin/vim")).toBe(vi);
+
+    ls.rename("ls");
+    expect(bin.getChild("ls")).toBe(ls);
+  });
+
+  it("test move keeps names unique", () => {
+    let rn: RootNode = new RootNode();
+    let bin: Directory = rn.mkdir("bin");
+    let opt: Directory = rn.mkdir("opt");
+    let ls: File = bin.touch("ls");
+    let other: File = opt.touch("ls");
+
+    expect(() => ls.move(opt)).toThrow(NodeExistsException);
+    expect(ls.getParentNode()).toBe(bin);
+    expect(bin.getChild("ls")).toBe(ls);
+    expect(opt.getChild("ls")).toBe(other);
+
+    ls.move(bin);
+    expect(bin.getChild("ls")).toBe(ls);
+
+    other.rename("ls2");
+    ls.move(opt);
+    expect(bin.getChild("ls")).toBeNull();
+    expect(opt.list()).toEqual([ls, other]);
+  });
+});
+
+describe("Directory listing test", () => {
+  it("test sorted listing with filters", () => {
+    let rn: RootNode = new RootNode();
+    let home: Directory = rn.mkdir("home");
+    let b: File = home.touch("b.txt");
+    let a: File = home.touch("a.txt");
+    let img: File = home.touch("Z.jpg");
+    let docs: Directory = home.mkdir("docs");
+
+    expect(baseNames(home.list())).toEqual(["Z.jpg", "a.txt", "b.txt", "docs"]);
+    expect(home.list(NamePattern.compile("*.txt", "/"))).toEqual([a, b]);
+    expect(home.list((n) => n instanceof Directory)).toEqual([docs]);
+    expect(home.list((n) => n === img)).toEqual([img]);
+    expect(rn.list()).toEqual([home]);
+  });
+
+  it("test mkdir and touch", () => {
+    let rn: RootNode = new RootNode();
+    let tmp: Directory = rn.mkdir("tmp");
+    let f: File = tmp.touch("f");
+
+    expect(tmp.touch("f")).toBe(f);
+    expect(() => tmp.mkdir("f")).toThrow(NodeExistsException);
+    expect(() => rn.mkdir("tmp")).toThrow(NodeExistsException);
+    expect(() => rn.touch("tmp")).toThrow(NodeExistsException);
+    expect(rn.lookup("/tmp/f")).toBe(f);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b05/common/IllegalArgumentException";
+
+import { File, FileMode, FileState } from "../../../src/adap-b05/files/File";
+import { Directory } from "../../../src/adap-b05/files/Directory";
+import { RootNode } from "../../../src/adap-b05/files/RootNode";
+
+function bytes(s: string): Int8Array {
+  return Int8Array.from(s, (c) => c.charCodeAt(0));
+}
+
+function text(b: Int8Array): string {
+  return String.fromCharCode(...b);
+}
+
+describe("In-memory file test", () => {
+  let rn: RootNode = new RootNode();
+  let home: Directory = new Directory("home", rn);
+
+  it("test write and read back", () => {
+    let f: File = new File("notes.txt", home);
+    expect(f.getFileState()).toBe(FileState.CLOSED);
+    expect(f.getSize()).toBe(0);
+
+    f.open(FileMode.WRITE);
+    f.write(bytes("hello world"));
+    expect(f.getPosition()).toBe(11);
+    f.seek(0);
+    expect(text(f.read(5))).toBe("hello");
+    expect(text(f.read(100))).toBe(" world");
+    expect(f.read(1).length).toBe(0);
+    f.close();
+
+    f.open();
+    expect(text(f.read(11))).toBe("hello world");
+    f.close();
+    expect(f.getSize()).toBe(11);
+  });
+
+  it("test overwrite, seek behind end and truncate", () => {
+    let f: File = new File("data.bin", home);
+    f.open(FileMode.WRITE);
+    f.write(bytes("abcdef"));
+    f.seek(2);
+    f.write(bytes("XY"));
+    f.seek(8);
+    f.write(bytes("Z"));
+    expect(f.getSize()).toBe(9);
+    f.seek(0);
+    expect(Array.from(f.read(9))).toEqual([97, 98, 88, 89, 101, 102, 0, 0, 90]);
+
+    f.truncate(3);
+    expect(f.getSize()).toBe(3);
+    expect(f.getPosition()).toBe(9);
+    f.truncate(5);
+    f.seek(0);
+    expect(Array.from(f.read(10))).toEqual([97, 98, 88, 0, 0]);
+    f.close();
+  });
+
+  it("test append mode", () => {
+    let f: File = new File("log.txt", home);
+    f.open(FileMode.WRITE);
+    f.write(bytes("one"));
+    f.close();
+
+    f.open(FileMode.APPEND);
+    f.seek(0);
+    f.write(bytes(",two"));
+    expect(f.getPosition()).toBe(7);
+    expect(() => f.read(1)).toThrow(IllegalArgumentException);
+    f.close();
+
+    f.open();
+    expect(text(f.read(7))).toBe("one,two");
+    f.close();
+  });
+
+  it("test buffer grows for large content", () => {
+    let f: File = new File("big.bin", home);
+    let content: Int8Array = new Int8Array(5000).map((_, i) => i % 100);
+    f.open(FileMode.WRITE);
+    for (let i = 0; i < 5; i++) {
+      f.write(content.subarray(i * 1000, (i + 1) * 1000));
+    }
+    f.seek(0);
+    expect(f.read(5000)).toEqual(content);
+    f.close();
+  });
+
+  it("test states govern operations", () => {
+    let f: File = new File("state.txt", home);
+    expect(() => f.read(1)).toThrow(IllegalArgumentException);
+    expect(() => f.write(bytes("x"))).toThrow(IllegalArgumentException);
+    expect(() => f.seek(0)).toThrow(IllegalArgumentException);
+    expect(() => f.close()).toThrow(IllegalArgumentException);
+
+    f.open();
+    expect(() => f.open()).toThrow(IllegalArgumentException);
+    expect(() => f.write(bytes("x"))).toThrow(IllegalArgumentException);
+    expect(() => f.truncate(0)).toThrow(IllegalArgumentException);
+    expect(() => f.seek(-1)).toThrow(IllegalArgumentException);
+    f.close();
+  });
+
+  it("test delete", () => {
+    let f: File = new File("tmp.txt", home);
+    f.open(FileMode.WRITE);
+    f.write(bytes("gone"));
+    f.delete();
+
+    expect(f.getFileState()).toBe(FileState.DELETED);
+    expect(home.hasChildNode(f)).toBe(false);
+    expect(() => f.getSize()).toThrow(IllegalArgumentException);
+    expect(() => f.open()).toThrow(IllegalArgumentException);
+    expect(() => f.delete()).toThrow(IllegalArgumentException);
+  });
+});
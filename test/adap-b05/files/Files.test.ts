@@ -1,10 +1,13 @@
 import { describe, it, expect } from "vitest";
 
 import { Exception } from "../../../src/adap-b05/common/Exception";
+import { IllegalArgumentException } from "../../../src/adap-b05/common/IllegalArgumentException";
 import { InvalidStateException } from "../../../src/adap-b05/common/InvalidStateException";
 import { ServiceFailureException } from "../../../src/adap-b05/common/ServiceFailureException";
 
-import { StringName } from "../../../src/adap-b05/names/StringName";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { NamePattern } from "../../../src/adap-b06/names/NamePattern";
 
 import { Node } from "../../../src/adap-b05/files/Node";
 import { File } from "../../../src/adap-b05/files/File";
@@ -34,8 +37,64 @@ function createFileSystem(): RootNode {
 describe("Basic naming test", () => {
   it("test name checking", () => {
     let fs: RootNode = createFileSystem();
-    // let ls: Node = [...fs.findNodes("ls")][0];
-    // expect(ls.getFullName().asString()).toBe(new StringName("/usr/bin/ls", '/'));
+    let ls: Node = [...fs.findNodes("ls")][0];
+    expect(ls.getFullName().asString()).toBe("/usr/bin/ls");
+    expect(ls.getFullName().isEqual(new StringName("/usr/bin/ls", '/'))).toBe(true);
+  });
+});
+
+describe("Full name test", () => {
+  it("test full names are cached until move or rename", () => {
+    let rn: RootNode = new RootNode();
+    let usr: Directory = new Directory("usr", rn);
+    let bin: Directory = new Directory("bin", usr);
+    let ls: File = new File("ls", bin);
+    let opt: Directory = new Directory("opt", rn);
+
+    let name: Name = ls.getFullName();
+    expect(ls.getFullName()).toBe(name);
+    expect(rn.getFullName().asString()).toBe("");
+
+    usr.rename("local");
+    expect(ls.getFullName().asString()).toBe("/local/bin/ls");
+    expect(name.asString()).toBe("/usr/bin/ls");
+
+    bin.move(opt);
+    expect(ls.getFullName().asString()).toBe("/opt/bin/ls");
+    expect(bin.getFullName().asString()).toBe("/opt/bin");
+    expect(rn.lookup(ls.getFullName())).toBe(ls);
+  });
+
+  it("test move into own subtree is rejected", () => {
+    let rn: RootNode = new RootNode();
+    let a: Directory = new Directory("a", rn);
+    let b: Directory = new Directory("b", a);
+    let c: Directory = new Directory("c", b);
+
+    expect(() => a.move(c)).toThrow(IllegalArgumentException);
+    expect(() => a.move(a)).toThrow(IllegalArgumentException);
+    expect(a.getParentNode()).toBe(rn);
+    expect(rn.getChild("a")).toBe(a);
+    expect(c.getFullName().asString()).toBe("/a/b/c");
+  });
+
+  it("test base names are masked", () => {
+    let rn: RootNode = new RootNode();
+    let f: File = new File("a/b", rn);
+    expect(f.getFullName().getNoComponents()).toBe(2);
+    expect(f.getFullName().getRawComponent(1)).toBe("a/b");
+    expect(rn.lookup(f.getFullName())).toBe(f);
+  });
+});
+
+describe("Pattern search test", () => {
+  it("test finding files by pattern", () => {
+    let fs: RootNode = createFileSystem();
+    let nodes: Node[] = [...fs.findNodes(NamePattern.compile("*.jpg", '/'))];
+    expect(nodes.length).toBe(1);
+    expect(nodes[0].getBaseName()).toBe("wallpaper.jpg");
+    expect(fs.findNodes(NamePattern.compile("[bc]??")).size).toBe(1);
+    expect(fs.findNodes("ls").size).toBe(1);
   });
 });
 
@@ -60,18 +119,16 @@ function createBuggySetup(): RootNode {
 
 describe("Buggy setup test", () => {
   it("test finding files", () => {
-    let threwException: boolean = false;
+    let fs: RootNode = createBuggySetup();
     try {
-      let fs: RootNode = createBuggySetup();
       fs.findNodes("ls");
+      expect.unreachable();
     } catch(er) {
-      threwException = true;
-      // let ex: Exception = er as Exception;
-      // expect(ex).toBeInstanceOf(ServiceFailureException);
-      // expect(ex.hasTrigger()).toBe(true);
-      // let tx: Exception = ex.getTrigger();
-      // expect(tx).toBeInstanceOf(InvalidStateException);
+      let ex: Exception = er as Exception;
+      expect(ex).toBeInstanceOf(ServiceFailureException);
+      expect(ex.hasTrigger()).toBe(true);
+      let tx: Exception = ex.getTrigger();
+      expect(tx).toBeInstanceOf(InvalidStateException);
     }
-    expect(threwException).toBe(true);
   });
 });
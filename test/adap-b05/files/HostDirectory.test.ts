@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { ServiceFailureException } from "../../../src/adap-b05/common/ServiceFailureException";
+
+import { Node } from "../../../src/adap-b05/files/Node";
+import { File, FileMode } from "../../../src/adap-b05/files/File";
+import { Link } from "../../../src/adap-b05/files/Link";
+import { Directory } from "../../../src/adap-b05/files/Directory";
+import { RootNode } from "../../../src/adap-b05/files/RootNode";
+import { HostDirectory } from "../../../src/adap-b05/files/HostDirectory";
+import { HostFile } from "../../../src/adap-b05/files/HostFile";
+import { HostLink } from "../../../src/adap-b05/files/HostLink";
+import { NodeNotFoundException } from "../../../src/adap-b05/files/NodeNotFoundException";
+
+function text(f: File): string {
+  f.open();
+  let result: string = Buffer.from(f.read(f.getSize())).toString();
+  f.close();
+  return result;
+}
+
+function fullNames(nodes: Set<Node>): string[] {
+  return [...nodes].map((n) => n.getFullName().asString()).sort();
+}
+
+describe("Host directory test", () => {
+  let tmp: string;
+  let rn: RootNode;
+
+  beforeEach(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), "adap-files-"));
+    fs.mkdirSync(path.join(tmp, "usr", "bin"), { recursive: true });
+    fs.writeFileSync(path.join(tmp, "usr", "bin", "ls"), "list files");
+    fs.mkdirSync(path.join(tmp, "home"));
+    fs.writeFileSync(path.join(tmp, "home", "ls"), "not a program");
+    fs.symlinkSync(path.join("..", "usr", "bin"), path.join(tmp, "home", "tools"));
+    fs.symlinkSync(os.tmpdir(), path.join(tmp, "home", "outside"));
+    rn = new RootNode();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it("test lazy loading", () => {
+    let mnt: HostDirectory = new HostDirectory("mnt", rn, tmp);
+    expect(mnt.isLoaded()).toBe(false);
+
+    let found: Set<Node> = rn.findNodes("ls");
+    expect(mnt.isLoaded()).toBe(true);
+    expect(fullNames(found)).toEqual(["/mnt/home/ls", "/mnt/usr/bin/ls"]);
+
+    let ls: Node = rn.lookup("/mnt/usr/bin/ls");
+    expect(ls).toBeInstanceOf(HostFile);
+    expect(text(ls as File)).toBe("list files");
+    expect(rn.lookup("/mnt/usr")).toBeInstanceOf(HostDirectory);
+  });
+
+  it("test same traversal as in-memory tree", () => {
+    let memory: RootNode = new RootNode();
+    let bin: Directory = new Directory("bin", new Directory("usr", memory));
+    new File("ls", bin);
+    new File("ls", new Directory("home", memory));
+
+    let host: RootNode = new RootNode();
+    new HostDirectory("mnt", host, tmp);
+    let names = (root: RootNode, prefix: string) => fullNames(root.findNodes("ls")).map((n) => n.substring(prefix.length));
+    expect(names(host, "/mnt")).toEqual(names(memory, ""));
+  });
+
+  it("test symbolic links", () => {
+    let mnt: HostDirectory = new HostDirectory("mnt", rn, tmp);
+    expect(rn.lookup("/mnt/home/tools")).toBe(rn.lookup("/mnt/usr/bin"));
+    expect(rn.lookup("/mnt/home/tools/ls")).toBe(rn.lookup("/mnt/usr/bin/ls"));
+    expect(mnt.resolve("home/tools", false)).toBeInstanceOf(HostLink);
+
+    let outside: Link = mnt.resolve("home/outside", false) as Link;
+    expect(outside.getTargetNode()).toBeNull();
+    expect(() => mnt.resolve("home/outside")).toThrow(NodeNotFoundException);
+  });
+
+  it("test symbolic links to the mount root", () => {
+    fs.symlinkSync(tmp, path.join(tmp, "home", "self"));
+    fs.symlinkSync("..", path.join(tmp, "home", "up"));
+    let mnt: HostDirectory = new HostDirectory("mnt", rn, tmp);
+    expect(rn.lookup("/mnt/home/self")).toBe(mnt);
+    expect(rn.lookup("/mnt/home/up")).toBe(mnt);
+    expect(rn.lookup("/mnt/home/self/usr/bin/ls")).toBe(rn.lookup("/mnt/usr/bin/ls"));
+  });
+
+  it("test in-memory changes", () => {
+    let mnt: HostDirectory = new HostDirectory("mnt", rn, tmp);
+    let ls: File = rn.lookup("/mnt/usr/bin/ls") as File;
+    ls.open(FileMode.APPEND);
+    ls.write(new Int8Array([33]));
+    ls.close();
+    expect(text(ls)).toBe("list files!");
+    expect(fs.readFileSync(path.join(tmp, "usr", "bin", "ls"), "utf8")).toBe("list files");
+
+    let notes: File = new File("notes", mnt);
+    expect(mnt.findNodes("notes").has(notes)).toBe(true);
+    expect(fs.existsSync(path.join(tmp, "notes"))).toBe(false);
+  });
+
+  it("test write-through", () => {
+    new HostDirectory("mnt", rn, tmp, { writeThrough: true });
+    let ls: File = rn.lookup("/mnt/usr/bin/ls") as File;
+    ls.open(FileMode.WRITE);
+    ls.truncate(4);
+    ls.seek(4);
+    ls.write(Int8Array.from(Buffer.from("ing")));
+    ls.close();
+    expect(fs.readFileSync(path.join(tmp, "usr", "bin", "ls"), "utf8")).toBe("listing");
+
+    let other: File = rn.lookup("/mnt/home/ls") as File;
+    other.delete();
+    expect(fs.existsSync(path.join(tmp, "home", "ls"))).toBe(false);
+  });
+
+  it("test missing host directory", () => {
+    let mnt: HostDirectory = new HostDirectory("mnt", rn, path.join(tmp, "missing"));
+    expect(() => mnt.findNodes("ls")).toThrow(ServiceFailureException);
+    expect(mnt.isLoaded()).toBe(false);
+  });
+});
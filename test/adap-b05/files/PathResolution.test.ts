@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b05/common/IllegalArgumentException";
+import { ServiceFailureException } from "../../../src/adap-b05/common/ServiceFailureException";
+
+import { Node } from "../../../src/adap-b05/files/Node";
+import { File } from "../../../src/adap-b05/files/File";
+import { Link } from "../../../src/adap-b05/files/Link";
+import { Directory } from "../../../src/adap-b05/files/Directory";
+import { RootNode } from "../../../src/adap-b05/files/RootNode";
+import { NodeNotFoundException } from "../../../src/adap-b05/files/NodeNotFoundException";
+import { NotADirectoryException } from "../../../src/adap-b05/files/NotADirectoryException";
+import { LinkLoopException } from "../../../src/adap-b05/files/LinkLoopException";
+
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+
+describe("Path resolution test", () => {
+  let rn: RootNode = new RootNode();
+  let usr: Directory = new Directory("usr", rn);
+  let bin: Directory = new Directory("bin", usr);
+  let ls: File = new File("ls", bin);
+  let home: Directory = new Directory("home", rn);
+  let riehle: Directory = new Directory("riehle", home);
+  let bashrc: File = new File(".bashrc", riehle);
+  let tools: Link = new Link("tools", riehle, bin);
+  let shell: Link = new Link("shell", riehle, tools);
+
+  it("test absolute names", () => {
+    expect(rn.lookup(new StringName("/usr/bin/ls", "/"))).toBe(ls);
+    expect(rn.lookup(new StringArrayName(["", "home", "riehle"], "/"))).toBe(riehle);
+    expect(rn.lookup("/")).toBe(rn);
+    expect(rn.lookup("//usr//bin/")).toBe(bin);
+    expect(riehle.resolve("/usr")).toBe(usr);
+  });
+
+  it("test relative names from a working directory", () => {
+    expect(rn.lookup("bin/ls", usr)).toBe(ls);
+    expect(rn.lookup("../../usr/./bin", riehle)).toBe(bin);
+    expect(rn.lookup("..", rn)).toBe(rn);
+    expect(rn.lookup("", riehle)).toBe(riehle);
+    expect(rn.lookup(new StringName("riehle.\\.bashrc"), home)).toBe(bashrc);
+  });
+
+  it("test links are followed", () => {
+    expect(rn.lookup("/home/riehle/tools/ls")).toBe(ls);
+    expect(rn.lookup("/home/riehle/shell/ls")).toBe(ls);
+    expect(rn.lookup("/home/riehle/tools")).toBe(bin);
+    expect(rn.lookup("/home/riehle/tools/..")).toBe(usr);
+    expect(riehle.resolve("tools", false)).toBe(tools);
+    expect(tools.getBaseName()).toBe("tools");
+  });
+
+  it("test links have base names of their own", () => {
+    let root: RootNode = new RootNode();
+    let opt: Directory = new Directory("opt", root);
+    let link: Link = new Link("current", root, opt);
+
+    expect(link.getBaseName()).toBe("current");
+    expect(link.getFullName().asString()).toBe("/current");
+
+    link.rename("latest");
+    expect(link.getBaseName()).toBe("latest");
+    expect(opt.getBaseName()).toBe("opt");
+    expect(root.lookup("/latest")).toBe(opt);
+    expect(root.getChild("current")).toBeNull();
+  });
+
+  it("test typed errors", () => {
+    expect(() => rn.lookup("/usr/lib")).toThrow(NodeNotFoundException);
+    expect(() => rn.lookup("/usr/bin/ls/x")).toThrow(NotADirectoryException);
+    expect(() => rn.lookup("bin", new RootNode())).toThrow(IllegalArgumentException);
+
+    try {
+      rn.lookup("/usr/bin/vi");
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(ServiceFailureException);
+      expect((e as NodeNotFoundException).getPath()).toBe("/usr/bin/vi");
+    }
+  });
+
+  it("test dangling links and link loops", () => {
+    let tmp: Directory = new Directory("tmp", rn);
+    let dangling: Link = new Link("dangling", tmp);
+    let a: Link = new Link("a", tmp);
+    let b: Link = new Link("b", tmp, a);
+    a.setTargetNode(b);
+
+    expect(() => rn.lookup("/tmp/dangling")).toThrow(NodeNotFoundException);
+    expect(() => rn.lookup("/tmp/a/x")).toThrow(LinkLoopException);
+    expect(() => b.getResolvedTarget()).toThrow(LinkLoopException);
+    let found: Node = tmp.resolve("b", false);
+    expect(found).toBe(b);
+  });
+});
@@ -0,0 +1,20 @@
+import { MutableNameAdapter } from "../../../src/adap-b05/names/MutableNameAdapter";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { NameImplementation, describeNameConformance, describeNameParity } from "../../conformance/NameConformance";
+
+const implementations: NameImplementation[] = [
+  {
+    label: "MutableNameAdapter of StringName",
+    create: (masked, delimiter) => new MutableNameAdapter(new StringName(masked.join(delimiter), delimiter)),
+    immutable: false,
+  },
+  {
+    label: "MutableNameAdapter of StringArrayName",
+    create: (masked, delimiter) => new MutableNameAdapter(new StringArrayName(masked, delimiter)),
+    immutable: false,
+  },
+];
+
+implementations.forEach((impl) => describeNameConformance(impl));
+describeNameParity("MutableNameAdapters", implementations);
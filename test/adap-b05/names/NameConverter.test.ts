@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b05/common/IllegalArgumentException";
+import { Name } from "../../../src/adap-b05/names/Name";
+import { MutableNameAdapter } from "../../../src/adap-b05/names/MutableNameAdapter";
+import { NameConverter } from "../../../src/adap-b05/names/NameConverter";
+import { StringName as MutableStringName } from "../../../src/adap-b04/names/StringName";
+import { Name as ImmutableName } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+
+describe("MutableNameAdapter tests", () => {
+  it("test changes replace the backing name", () => {
+    let value: ImmutableName = new StringName("oss.fau.de");
+    let n: Name = NameConverter.toMutable(value);
+    n.insert(1, "cs");
+    n.append("www");
+    n.remove(4);
+    expect(n.asString()).toBe("oss.cs.fau.de");
+    expect(value.asString()).toBe("oss.fau.de");
+  });
+
+  it("test copy-on-write clone and snapshot", () => {
+    let n = new MutableNameAdapter(new StringName("usr/bin", "/"));
+    let snapshot: ImmutableName = n.toImmutable();
+    let copy: Name = n.clone();
+    n.setComponent(1, "lib");
+    expect(snapshot.asString()).toBe("usr/bin");
+    expect(copy.asString()).toBe("usr/bin");
+    expect(n.asString()).toBe("usr/lib");
+    expect(NameConverter.toImmutable(n)).toBe(n.toImmutable());
+  });
+
+  it("test equality with mutable and immutable names", () => {
+    let n: Name = NameConverter.toMutable(new StringArrayName(["a", "b\\.c"]));
+    expect(n.isEqual(new StringName("a.b\\.c"))).toBe(true);
+    expect(n.isEqual(NameConverter.toMutable(new StringName("a.b\\.c")))).toBe(true);
+    expect(n.getHashCode()).toBe(new StringName("a.b\\.c").getHashCode());
+  });
+
+  it("test concat re-masks for the backing escape character", () => {
+    let n: Name = NameConverter.toMutable(new StringName("a", ".", "^"));
+    n.concat(NameConverter.toMutable(new StringArrayName(["b\\.c", "d"])));
+    expect(n.getNoComponents()).toBe(3);
+    expect(n.getComponent(1)).toBe("b^.c");
+    expect(n.asString()).toBe("a.b.c.d");
+  });
+
+  it("test b06 exceptions become b05 exceptions", () => {
+    let n: Name = NameConverter.toMutable(new StringName("oss.fau.de"));
+    expect(() => n.getComponent(3)).toThrow(IllegalArgumentException);
+    expect(() => n.append("x.y")).toThrow();
+    expect(n.asString()).toBe("oss.fau.de");
+  });
+});
+
+describe("NameConverter tests", () => {
+  it("test mutable names are copied", () => {
+    let n = new MutableStringName("oss.fau.de");
+    let value: ImmutableName = NameConverter.toImmutable(n);
+    n.remove(0);
+    expect(value.asString()).toBe("oss.fau.de");
+    expect(value.getDelimiterCharacter()).toBe(".");
+    expect(n.asString()).toBe("fau.de");
+  });
+});
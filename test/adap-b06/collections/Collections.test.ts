@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { Coordinate } from "../../../src/adap-b06/coordinates/Coordinate";
+import { CartesianCoordinate } from "../../../src/adap-b06/coordinates/CartesianCoordinate";
+import { PolarCoordinate } from "../../../src/adap-b06/coordinates/PolarCoordinate";
+
+import { EqualityMap } from "../../../src/adap-b06/collections/EqualityMap";
+import { NameMap } from "../../../src/adap-b06/collections/NameMap";
+import { NameSet } from "../../../src/adap-b06/collections/NameSet";
+import { NamePrefixMap } from "../../../src/adap-b06/collections/NamePrefixMap";
+
+describe("NameMap and NameSet tests", () => {
+  it("test keys compare by value", () => {
+    let m: NameMap<number> = new NameMap();
+    m.set(new StringName("oss.cs.fau.de"), 1);
+    m.set(new StringArrayName(["oss", "cs", "fau", "de"]), 2);
+    expect(m.size).toBe(1);
+    expect(m.get(new StringName("oss.cs.fau.de"))).toBe(2);
+    expect(m.has(new StringName("oss/cs/fau/de", '/'))).toBe(false);
+    expect(m.delete(new StringArrayName(["oss", "cs", "fau", "de"]))).toBe(true);
+    expect(m.size).toBe(0);
+  });
+  it("test set keeps insertion order", () => {
+    let s: NameSet = new NameSet([new StringName("b"), new StringName("a"), new StringArrayName(["b"])]);
+    expect(s.size).toBe(2);
+    expect([...s].map((n) => n.asString())).toEqual(["b", "a"]);
+  });
+  it("test coordinates as keys", () => {
+    let m: EqualityMap<Coordinate, string> = new EqualityMap();
+    m.set(new CartesianCoordinate(2, 0), "x");
+    expect(m.get(new PolarCoordinate(2, 0))).toBe("x");
+  });
+});
+
+describe("NamePrefixMap tests", () => {
+  function createMap(): NamePrefixMap<string> {
+    let m: NamePrefixMap<string> = new NamePrefixMap();
+    m.set(new StringName("/usr", '/'), "usr");
+    m.set(new StringName("/usr/bin/ls", '/'), "ls");
+    m.set(new StringName("/usr/bin/code", '/'), "code");
+    m.set(new StringName("/home/riehle", '/'), "riehle");
+    return m;
+  }
+  it("test entries under a name", () => {
+    let m = createMap();
+    expect(m.size).toBe(4);
+    let under = m.getEntriesUnder(new StringArrayName(["", "usr", "bin"], '/')).map(([, v]) => v);
+    expect(under.sort()).toEqual(["code", "ls"]);
+    expect(m.getEntriesUnder(new StringName("/usr", '/')).length).toBe(3);
+    expect(m.getEntriesUnder(new StringName("/media", '/')).length).toBe(0);
+  });
+  it("test longest prefix and delete", () => {
+    let m = createMap();
+    let e = m.getLongestPrefixEntry(new StringName("/usr/lib/x", '/'));
+    expect(e?.[1]).toBe("usr");
+    expect(m.delete(new StringName("/usr", '/'))).toBe(true);
+    expect(m.getLongestPrefixEntry(new StringName("/usr/lib/x", '/'))).toBeUndefined();
+    expect(m.delete(new StringName("/usr/bin/ls", '/'))).toBe(true);
+    expect(m.get(new StringName("/usr/bin/code", '/'))).toBe("code");
+    expect(m.size).toBe(2);
+  });
+});
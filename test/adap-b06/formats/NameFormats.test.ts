@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+
+import { DnsNameFormat } from "../../../src/adap-b06/formats/DnsNameFormat";
+import { PosixPathFormat } from "../../../src/adap-b06/formats/PosixPathFormat";
+import { WindowsPathFormat } from "../../../src/adap-b06/formats/WindowsPathFormat";
+import { UriPathFormat } from "../../../src/adap-b06/formats/UriPathFormat";
+import { AbstractNameFormat } from "../../../src/adap-b06/formats/AbstractNameFormat";
+
+class ScopeFormat extends AbstractNameFormat {
+  constructor(delimiter: string = "::") {
+    super(delimiter);
+  }
+  protected doParse(text: string): string[] {
+    return text.split("::");
+  }
+  protected doSerialize(components: string[]): string {
+    return components.join("::");
+  }
+}
+
+describe("DNS name format tests", () => {
+  it("test parse and serialize", () => {
+    let f = new DnsNameFormat();
+    let n: Name = f.parse("oss.cs.fau.de");
+    expect(n.getNoComponents()).toBe(4);
+    expect(n.isEqual(new StringName("oss.cs.fau.de"))).toBe(true);
+    expect(f.serialize(n)).toBe("oss.cs.fau.de");
+  });
+  it("test quoting", () => {
+    let f = new DnsNameFormat();
+    let n: Name = f.parse("a\\.b.c\\032d");
+    expect(n.getNoComponents()).toBe(2);
+    expect(n.getComponent(0)).toBe("a\\.b");
+    expect(n.getComponent(1)).toBe("c d");
+    expect(f.serialize(n)).toBe("a\\.b.c\\032d");
+    expect(() => f.parse("abc\\")).toThrow(IllegalArgumentException);
+  });
+});
+
+describe("POSIX path format tests", () => {
+  it("test absolute path", () => {
+    let f = new PosixPathFormat();
+    let n: Name = f.parse("/usr/bin/ls");
+    expect(n.getNoComponents()).toBe(4);
+    expect(n.getComponent(0)).toBe("");
+    expect(n.isEqual(new StringName("/usr/bin/ls", '/'))).toBe(true);
+    expect(f.serialize(n)).toBe("/usr/bin/ls");
+  });
+  it("test backslash is ordinary", () => {
+    let f = new PosixPathFormat();
+    let n: Name = f.parse("tmp/a\\b");
+    expect(n.getComponent(1)).toBe("a\\\\b");
+    expect(f.serialize(n)).toBe("tmp/a\\b");
+  });
+  it("test illegal component", () => {
+    let f = new PosixPathFormat();
+    expect(() => f.serialize(new StringName("a/b.c"))).toThrow(IllegalArgumentException);
+  });
+});
+
+describe("Windows path format tests", () => {
+  it("test drive and separators", () => {
+    let f = new WindowsPathFormat();
+    let n: Name = f.parse("C:\\Users\\riehle/Documents");
+    expect(n.getNoComponents()).toBe(4);
+    expect(n.getComponent(0)).toBe("C:");
+    expect(f.serialize(n)).toBe("C:\\Users\\riehle\\Documents");
+  });
+  it("test illegal characters", () => {
+    let f = new WindowsPathFormat();
+    expect(() => f.parse("C:\\a?b")).toThrow(IllegalArgumentException);
+    expect(() => f.parse("a\\C:")).toThrow(IllegalArgumentException);
+  });
+});
+
+describe("URI path format tests", () => {
+  it("test percent-encoding", () => {
+    let f = new UriPathFormat();
+    let n: Name = f.parse("/a%20b/c%2Fd/%C3%A4");
+    expect(n.getNoComponents()).toBe(4);
+    expect(n.getComponent(1)).toBe("a b");
+    expect(n.getComponent(2)).toBe("c\\/d");
+    expect(n.getComponent(3)).toBe("ä");
+    expect(f.serialize(n)).toBe("/a%20b/c%2Fd/%C3%A4");
+  });
+  it("test data string round-trip", () => {
+    let f = new UriPathFormat();
+    let n: Name = f.parse("/x.y/z");
+    let m: Name = new StringName(n.asDataString());
+    expect(f.serialize(m)).toBe("/x.y/z");
+    expect(() => f.parse("/%E0%A4%A")).toThrow(IllegalArgumentException);
+  });
+});
+
+describe("Multi-character delimiter tests", () => {
+  it("test names with multi-character delimiter", () => {
+    let f = new ScopeFormat();
+    expect(f.getDelimiterCharacter()).toBe("::");
+    let n: Name = f.parse("std::chrono:x::duration");
+    expect(n.getNoComponents()).toBe(3);
+    expect(n.getDelimiterCharacter()).toBe("::");
+    expect(n.getComponent(1)).toBe("chrono:x");
+    expect(n.isEqual(new StringName("std::chrono:x::duration", "::"))).toBe(true);
+    expect(f.serialize(n)).toBe("std::chrono:x::duration");
+  });
+  it("test illegal delimiters", () => {
+    expect(() => new ScopeFormat("")).toThrow(IllegalArgumentException);
+    expect(() => new ScopeFormat(":\\")).toThrow(IllegalArgumentException);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { DomainName } from "../../../src/adap-b06/names/DomainName";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { NamePolicyException } from "../../../src/adap-b06/names/NamePolicy";
+import { Punycode } from "../../../src/adap-b06/names/Punycode";
+import { PublicSuffixList } from "../../../src/adap-b06/names/PublicSuffixList";
+import { JsonSerializer } from "../../../src/adap-b06/serialization/JsonSerializer";
+
+describe("Punycode tests", () => {
+  it("test RFC 3492 samples", () => {
+    expect(Punycode.encode("bücher")).toBe("bcher-kva");
+    expect(Punycode.encode("münchen")).toBe("mnchen-3ya");
+    expect(Punycode.encode("他们为什么不说中文")).toBe("ihqwcrb4cv8a8dqg056pqjye");
+    expect(Punycode.decode("ihqwcrb4cv8a8dqg056pqjye")).toBe("他们为什么不说中文");
+    expect(Punycode.decode("bcher-kva")).toBe("bücher");
+  });
+
+  it("test label conversion", () => {
+    expect(Punycode.toASCII("Bücher")).toBe("xn--bcher-kva");
+    expect(Punycode.toASCII("oss")).toBe("oss");
+    expect(Punycode.toUnicode("XN--BCHER-KVA")).toBe("bücher");
+    expect(() => Punycode.decode("bcher-kv!")).toThrow(IllegalArgumentException);
+    expect(() => Punycode.toASCII("ü".repeat(100000))).toThrow(IllegalArgumentException);
+  });
+});
+
+describe("DomainName tests", () => {
+  it("test labels are stored in canonical ASCII form", () => {
+    let n: DomainName = new DomainName("WWW.Bücher.example.");
+    expect(n.getNoComponents()).toBe(3);
+    expect(n.asString()).toBe("www.xn--bcher-kva.example");
+    expect(n.getUnicodeLabel(1)).toBe("bücher");
+    expect(n.toUnicodeString()).toBe("www.bücher.example");
+    expect(new DomainName("例え。テスト").asString()).toBe("xn--r8jz45g.xn--zckzah");
+    expect(new DomainName("").isEmpty()).toBe(true);
+  });
+
+  it("test comparison ignores case and spelling", () => {
+    let n: Name = new DomainName("OSS.cs.FAU.de");
+    expect(n.isEqual(new DomainName("oss.cs.fau.de"))).toBe(true);
+    expect(n.getHashCode()).toBe(new DomainName("oss.cs.fau.de").getHashCode());
+    expect(new DomainName("xn--bcher-kva.de").isEqual(new DomainName("BÜCHER.de"))).toBe(true);
+    expect(n.compareTo(new DomainName("oss.cs.fau.DE"))).toBe(0);
+    expect(n.isEqual(new StringName("oss.cs.fau.de"))).toBe(true);
+  });
+
+  it("test length and character limits", () => {
+    expect(() => new DomainName("a".repeat(64) + ".de")).toThrow(NamePolicyException);
+    expect(() => new DomainName(Array(64).fill("abc").join("."))).toThrow(NamePolicyException);
+    expect(() => new DomainName("under_score.de")).toThrow(IllegalArgumentException);
+    expect(() => new DomainName("oss..de")).toThrow(NamePolicyException);
+    expect(() => new DomainName("-oss.de")).toThrow(IllegalArgumentException);
+    expect(() => new DomainName("xn--a!b.de")).toThrow(IllegalArgumentException);
+    expect(new DomainName("a".repeat(63) + ".de").getNoComponents()).toBe(2);
+  });
+
+  it("test derived names stay domain names", () => {
+    let n: Name = new DomainName("fau.de").insert(0, "OSS");
+    expect(n).toBeInstanceOf(DomainName);
+    expect(n.asString()).toBe("oss.fau.de");
+    expect(n.appendRaw("bücher").asString()).toBe("oss.fau.de.xn--bcher-kva");
+    expect(() => n.append("a_b")).toThrow(NamePolicyException);
+    expect(n.getParent()).toBeInstanceOf(DomainName);
+  });
+
+  it("test public suffixes and registrable domains", () => {
+    let n = new DomainName("www.example.co.uk");
+    expect(n.getTopLevelDomain()?.asString()).toBe("uk");
+    expect(n.getPublicSuffix()?.asString()).toBe("co.uk");
+    expect(n.getRegistrableDomain()?.asString()).toBe("example.co.uk");
+    expect(new DomainName("co.uk").isPublicSuffix()).toBe(true);
+    expect(new DomainName("co.uk").getRegistrableDomain()).toBeNull();
+
+    expect(new DomainName("oss.cs.fau.de").getRegistrableDomain()?.asString()).toBe("fau.de");
+    expect(new DomainName("me.github.io").getRegistrableDomain()?.asString()).toBe("me.github.io");
+    expect(new DomainName("a.b.example.ck").getPublicSuffix()?.asString()).toBe("example.ck");
+    expect(new DomainName("www.ck").getPublicSuffix()?.asString()).toBe("ck");
+    expect(new DomainName("shop.公司.cn").getPublicSuffix()?.toUnicodeString()).toBe("公司.cn");
+    expect(new DomainName("example.unknown").getPublicSuffix()?.asString()).toBe("unknown");
+    expect(new DomainName("").getPublicSuffix()).toBeNull();
+  });
+
+  it("test custom suffix list", () => {
+    let list = new PublicSuffixList("// test\nexample\n*.corp.example\n");
+    expect(list.isKnownTopLevelDomain("example")).toBe(true);
+    expect(list.isKnownTopLevelDomain("de")).toBe(false);
+    expect(new DomainName("a.b.corp.example").getRegistrableDomain(list)?.asString()).toBe("a.b.corp.example");
+  });
+
+  it("test serialization", () => {
+    let n = new DomainName("www.bücher.de");
+    let s = new JsonSerializer();
+    let copy = s.fromJSON(s.toJSON(n));
+    expect(copy).toBeInstanceOf(DomainName);
+    expect((copy as DomainName).isEqual(n)).toBe(true);
+  });
+});
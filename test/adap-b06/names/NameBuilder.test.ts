@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { InvalidStateException } from "../../../src/adap-b06/common/InvalidStateException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { NameBuilder } from "../../../src/adap-b06/names/NameBuilder";
+import { NameNormalization } from "../../../src/adap-b06/names/NameNormalization";
+
+describe("NameBuilder tests", () => {
+  it("test chained operations", () => {
+    let b = new NameBuilder("/").push("usr").push("local").push("bin").pop().insert(0, "").set(2, "share").appendRaw("a/b");
+    expect(b.getNoComponents()).toBe(4);
+    expect(b.getComponent(3)).toBe("a\\/b");
+
+    let n: Name = b.build(StringName);
+    expect(n).toBeInstanceOf(StringName);
+    expect(n.asString()).toBe("/usr/share/a/b");
+    expect(n.getNoComponents()).toBe(4);
+  });
+
+  it("test appendMasked splits masked names", () => {
+    let n: Name = new NameBuilder().appendMasked("oss.cs").appendMasked("").appendMasked("fau\\.de").build();
+    expect(n).toBeInstanceOf(StringArrayName);
+    expect(n.getNoComponents()).toBe(3);
+    expect(n.getComponent(2)).toBe("fau\\.de");
+  });
+
+  it("test invalid components are rejected", () => {
+    let b = new NameBuilder();
+    expect(() => b.push("a.b")).toThrow(InvalidStateException);
+    expect(() => b.pop()).toThrow(IllegalArgumentException);
+    expect(() => b.set(0, "a")).toThrow(IllegalArgumentException);
+    expect(() => b.push("").build(StringName)).toThrow(IllegalArgumentException);
+    expect(b.build(StringArrayName).getNoComponents()).toBe(1);
+  });
+
+  it("test builder is decoupled from built names", () => {
+    let b = new NameBuilder().push("a");
+    let n = b.build();
+    b.push("b");
+    expect(n.getNoComponents()).toBe(1);
+    expect(b.build().getNoComponents()).toBe(2);
+  });
+
+  it("test toBuilder keeps syntax", () => {
+    for (const n of [new StringName("a#b", "#", "%"), new StringArrayName(["a", "b"], "#", "%"), new LinkedName(["a", "b"], "#", "%")] as Name[]) {
+      let m = n.toBuilder().push("c%#d").build();
+      expect(m.getDelimiterCharacter()).toBe("#");
+      expect(m.getEscapeCharacter()).toBe("%");
+      expect(m.asString()).toBe("a#b#c#d");
+      expect(n.getNoComponents()).toBe(2);
+    }
+    let f = new StringArrayName(["ABC"], ".", "\\", NameNormalization.NFC_CASE_FOLDED);
+    expect(f.toBuilder().push("DEF").build().getComponent(1)).toBe("def");
+  });
+});
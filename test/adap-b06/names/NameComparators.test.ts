@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { NameComparators } from "../../../src/adap-b06/names/NameComparators";
+
+function names(...sources: string[]): Name[] {
+  return sources.map((s) => new StringName(s));
+}
+
+function strings(ns: Name[]): string[] {
+  return ns.map((n) => n.asString());
+}
+
+describe("compareTo tests", () => {
+  it("test consistency with isEqual", () => {
+    let n: Name = new StringName("oss.cs.fau.de");
+    let m: Name = new StringArrayName(["oss", "cs", "fau", "de"]);
+    expect(n.compareTo(m)).toBe(0);
+    expect(n.compareTo(new StringName("oss.cs"))).toBeGreaterThan(0);
+    expect(new StringName("a.b").compareTo(new StringName("a.c"))).toBeLessThan(0);
+    expect(new StringName("a/b", '/').compareTo(new StringName("a.b").setComponent(0, "a/b"))).not.toBe(0);
+  });
+});
+
+describe("Comparator tests", () => {
+  it("test lexicographic", () => {
+    let ns = names("b.a", "a.b", "a", "B");
+    expect(strings(ns.sort(NameComparators.lexicographic()))).toEqual(["B", "a", "a.b", "b.a"]);
+    expect(strings(ns.sort(NameComparators.lexicographic({ caseInsensitive: true })))).toEqual(["a", "a.b", "B", "b.a"]);
+  });
+  it("test natural", () => {
+    let ns = names("file10", "file2", "file1.x", "file02");
+    expect(strings(ns.sort(NameComparators.natural()))).toEqual(["file1.x", "file02", "file2", "file10"]);
+  });
+  it("test reverse DNS", () => {
+    let ns = names("oss.cs.fau.de", "com", "fau.de", "de", "cs.fau.de");
+    expect(strings(ns.sort(NameComparators.reverseDns()))).toEqual(["com", "de", "fau.de", "cs.fau.de", "oss.cs.fau.de"]);
+    let r = NameComparators.reversed(NameComparators.reverseDns());
+    expect(r(new StringName("de"), new StringName("com"))).toBeLessThan(0);
+  });
+  it("test locale collation is consistent with equality", () => {
+    let c = NameComparators.lexicographic({ locale: "de", caseInsensitive: true });
+    expect(c(new StringName("äpfel"), new StringName("birnen"))).toBeLessThan(0);
+    expect(c(new StringName("Apfel"), new StringName("apfel"))).not.toBe(0);
+    expect(c(new StringName("apfel"), new StringArrayName(["apfel"]))).toBe(0);
+  });
+});
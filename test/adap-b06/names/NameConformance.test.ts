@@ -0,0 +1,33 @@
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { NameSyntax } from "../../conformance/NameGenerator";
+import { NameImplementation, describeNameConformance, describeNameParity } from "../../conformance/NameConformance";
+
+// b06 names support multi-character delimiters and any single code point as escape character
+const syntax: NameSyntax = { delimiters: [".", "/", "#", "::", "ab"], escapes: ["\\", "^", "😀"] };
+
+const implementations: NameImplementation[] = [
+  {
+    label: "StringName",
+    create: (masked, delimiter, escape) => new StringName(masked.join(delimiter), delimiter, escape),
+    parse: (source, delimiter, escape) => new StringName(source, delimiter, escape),
+    syntax: syntax,
+    immutable: true,
+  },
+  {
+    label: "StringArrayName",
+    create: (masked, delimiter, escape) => new StringArrayName(masked, delimiter, escape),
+    syntax: syntax,
+    immutable: true,
+  },
+  {
+    label: "LinkedName",
+    create: (masked, delimiter, escape) => new LinkedName(masked, delimiter, escape),
+    syntax: syntax,
+    immutable: true,
+  },
+];
+
+implementations.forEach((impl) => describeNameConformance(impl));
+describeNameParity("StringName, StringArrayName and LinkedName", implementations);
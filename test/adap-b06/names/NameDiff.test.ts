@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { NameDiff } from "../../../src/adap-b06/names/NameDiff";
+import { NamePatch } from "../../../src/adap-b06/names/NamePatch";
+import { JsonSerializer } from "../../../src/adap-b06/serialization/JsonSerializer";
+
+describe("NameDiff tests", () => {
+  it("test equal names have an empty diff", () => {
+    let d = NameDiff.compute(new StringName("oss.cs.fau.de"), new StringArrayName(["oss", "cs", "fau", "de"]));
+    expect(d.isEmpty()).toBe(true);
+  });
+
+  it("test insert, remove and replace", () => {
+    let from: Name = new StringName("home.alice.projects.adap");
+    let to: Name = new StringName("home.bob.adap.b06");
+    let d = NameDiff.compute(from, to);
+    expect(d.getEdits()).toEqual([
+      { kind: "replace", index: 1, previous: "alice", component: "bob" },
+      { kind: "remove", index: 2, component: "projects" },
+      { kind: "insert", index: 3, component: "b06" },
+    ]);
+    expect(d.toPatch().applyTo(from).isEqual(to)).toBe(true);
+  });
+
+  it("test diff across delimiters and implementations", () => {
+    let from: Name = new StringName("usr/local/bin", "/");
+    let to: Name = new StringArrayName(["usr", "bin", "a\\.b"]);
+    let patch = NameDiff.compute(from, to).toPatch();
+
+    let result = patch.applyTo(from);
+    expect(result).toBeInstanceOf(StringName);
+    expect(result.getDelimiterCharacter()).toBe("/");
+    expect(result.asString()).toBe("usr/bin/a.b");
+    expect(result.asDataString()).toBe("usr.bin.a\\.b");
+  });
+
+  it("test components are masked for the target", () => {
+    let patch = new NamePatch([{ kind: "insert", index: 0, component: "a/b" }]);
+    let n = patch.applyTo(new StringName("c", "/"));
+    expect(n.getNoComponents()).toBe(2);
+    expect(n.getComponent(0)).toBe("a\\/b");
+  });
+});
+
+describe("NamePatch tests", () => {
+  it("test patch checks the components it removes", () => {
+    let patch = NameDiff.compute(new StringName("a.b.c"), new StringName("a.c")).toPatch();
+    expect(() => patch.applyTo(new StringName("a.x.c"))).toThrow(IllegalArgumentException);
+    expect(() => patch.applyTo(new StringName("a"))).toThrow(IllegalArgumentException);
+  });
+
+  it("test invert undoes a patch", () => {
+    let from: Name = new StringName("a.b.c.d");
+    let to: Name = new StringName("x.b.d.e.f");
+    let patch = NameDiff.compute(from, to).toPatch();
+    expect(patch.invert().applyTo(patch.applyTo(from)).isEqual(from)).toBe(true);
+  });
+
+  it("test malformed edits are rejected", () => {
+    expect(() => new NamePatch([{ kind: "remove", index: -1, component: "a" }])).toThrow(IllegalArgumentException);
+    expect(() => new NamePatch([{ kind: "move", index: 0, component: "a" } as any])).toThrow(IllegalArgumentException);
+  });
+
+  it("test diff and patch are serializable", () => {
+    let s = new JsonSerializer();
+    let d = NameDiff.compute(new StringName("a.b"), new StringName("a.c.d"));
+    let e = s.fromJSON(s.toJSON(d)) as NameDiff;
+    expect(e).toBeInstanceOf(NameDiff);
+    expect(e.getEdits()).toEqual(d.getEdits());
+
+    let p = s.fromJSON(s.toJSON(d.toPatch())) as NamePatch;
+    expect(p).toBeInstanceOf(NamePatch);
+    expect(p.applyTo(new StringName("a.b")).asString()).toBe("a.c.d");
+  });
+});
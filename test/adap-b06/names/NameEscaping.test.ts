@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { InvalidStateException } from "../../../src/adap-b06/common/InvalidStateException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { NameEscaping } from "../../../src/adap-b06/names/NameEscaping";
+
+describe("NameEscaping tests", () => {
+  it("test mask and unmask", () => {
+    expect(NameEscaping.mask("a.b\\c")).toBe("a\\.b\\\\c");
+    expect(NameEscaping.unmask("a\\.b\\\\c")).toBe("a.b\\c");
+    expect(NameEscaping.mask("a/b.c", "/")).toBe("a\\/b.c");
+    expect(NameEscaping.mask("x#y%", "#", "%")).toBe("x%#y%%");
+    expect(NameEscaping.mask("xa", "aa")).toBe("x\\a");
+  });
+
+  it("test isMasked and assertMasked", () => {
+    expect(NameEscaping.isMasked("a\\.b")).toBe(true);
+    expect(NameEscaping.isMasked("a.b")).toBe(false);
+    expect(NameEscaping.isMasked("a\\")).toBe(false);
+    expect(() => NameEscaping.assertMasked("a.b")).toThrow(InvalidStateException);
+    expect(() => NameEscaping.mask(null as any)).toThrow(IllegalArgumentException);
+  });
+
+  it("test getRawComponents uses the name's escape character", () => {
+    expect(NameEscaping.getRawComponents(new StringArrayName(["a%#b", "c"], "#", "%"))).toEqual(["a#b", "c"]);
+  });
+});
+
+describe("fromRawComponents tests", () => {
+  const raw = ["", "usr", "my.files", "a\\b", "c/d"];
+
+  it("test all implementations agree", () => {
+    let names: Name[] = [
+      StringName.fromRawComponents(raw, "/"),
+      StringArrayName.fromRawComponents(raw, "/"),
+      LinkedName.fromRawComponents(raw, "/"),
+    ];
+    for (const n of names) {
+      expect(n.getNoComponents()).toBe(raw.length);
+      expect(NameEscaping.getRawComponents(n)).toEqual(raw);
+      expect(n.isEqual(names[0])).toBe(true);
+    }
+  });
+
+  it("test asDataString round trips by construction", () => {
+    let n = StringArrayName.fromRawComponents(raw, "/");
+    let parsed = new StringName(n.asDataString());
+    expect(NameEscaping.getRawComponents(parsed)).toEqual(raw);
+    expect(n.asString()).toBe(raw.join("/"));
+  });
+
+  it("test StringName rejects a single empty component", () => {
+    expect(() => StringName.fromRawComponents([""])).toThrow(IllegalArgumentException);
+    expect(StringArrayName.fromRawComponents([""]).getNoComponents()).toBe(1);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { NamePattern } from "../../../src/adap-b06/names/NamePattern";
+
+describe("Wildcard tests", () => {
+  it("test component wildcards", () => {
+    let p: NamePattern = NamePattern.compile("home.*.projects.**");
+    expect(p.matches(new StringName("home.riehle.projects"))).toBe(true);
+    expect(p.matches(new StringName("home.riehle.projects.adap.names"))).toBe(true);
+    expect(p.matches(new StringArrayName(["home", "riehle", "docs"]))).toBe(false);
+    expect(p.matches(new StringName("home.projects"))).toBe(false);
+  });
+  it("test single character and classes", () => {
+    let p: NamePattern = NamePattern.compile("usr/bin/l?", '/');
+    expect(p.matches(new StringName("usr/bin/ls", '/'))).toBe(true);
+    expect(p.matches(new StringName("usr/bin/less", '/'))).toBe(false);
+    let q: NamePattern = NamePattern.compile("v[0-9].[!x]*");
+    expect(q.matches(new StringName("v1.abc"))).toBe(true);
+    expect(q.matches(new StringName("v1.xyz"))).toBe(false);
+    expect(q.matches(new StringName("va.abc"))).toBe(false);
+  });
+  it("test escaped delimiter and wildcards", () => {
+    let p: NamePattern = NamePattern.compile("a\\.b.\\*");
+    expect(p.matches(new StringArrayName(["a\\.b", "*"]))).toBe(true);
+    expect(p.matches(new StringArrayName(["a\\.b", "x"]))).toBe(false);
+    expect(p.matches(new StringName("a^.b.*", ".", "^"))).toBe(true);
+  });
+  it("test malformed patterns", () => {
+    expect(() => NamePattern.compile("a.[bc")).toThrow(IllegalArgumentException);
+    expect(() => NamePattern.compile("a.b\\")).toThrow(IllegalArgumentException);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { AbstractName } from "../../../src/adap-b06/names/AbstractName";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { NameBuilder } from "../../../src/adap-b06/names/NameBuilder";
+import { NamePolicy, NamePolicyException } from "../../../src/adap-b06/names/NamePolicy";
+
+describe("NamePolicy tests", () => {
+  it("test DNS policy", () => {
+    let n: Name = new StringName("oss.cs.fau.de", ".", "\\", null, NamePolicy.DNS);
+    expect((n as AbstractName).getPolicy()).toBe(NamePolicy.DNS);
+
+    expect(NamePolicy.DNS.isValid(new StringName("my-host.example"))).toBe(true);
+    expect(NamePolicy.DNS.isValid(new StringName("a".repeat(64) + ".de"))).toBe(false);
+    expect(NamePolicy.DNS.isValid(new StringName("under_score.de"))).toBe(false);
+    expect(NamePolicy.DNS.isValid(new StringName("oss..de"))).toBe(false);
+    expect(NamePolicy.DNS.isValid(new StringName(Array(60).fill("abcd").join(".")))).toBe(false);
+  });
+
+  it("test violations are structured", () => {
+    let violations = NamePolicy.DNS.check(new StringName("a_b..de"));
+    expect(violations.map((v) => v.rule)).toEqual(["allowedCharacters", "nonEmptyComponents"]);
+    expect(violations[0].index).toBe(0);
+    expect(violations[0].component).toBe("a_b");
+    expect(violations[1].index).toBe(1);
+
+    try {
+      new StringArrayName(["a_b", "de"], ".", "\\", null, NamePolicy.DNS);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(NamePolicyException);
+      expect(e).toBeInstanceOf(IllegalArgumentException);
+      expect((e as NamePolicyException).getPolicyName()).toBe("DNS");
+      expect((e as NamePolicyException).getViolations()[0].rule).toBe("allowedCharacters");
+    }
+  });
+
+  it("test Windows reserved words", () => {
+    let policy = NamePolicy.WINDOWS_PATH;
+    expect(policy.isValid(new StringName("Users\\me\\readme.txt", "\\", "^"))).toBe(true);
+    expect(policy.check(new StringArrayName(["dir", "CON"])).map((v) => v.rule)).toEqual(["reservedWords"]);
+    expect(policy.isValid(new StringArrayName(["dir", "nul.txt"], "/"))).toBe(false);
+    expect(policy.isValid(new StringArrayName(["dir", "console"]))).toBe(true);
+    expect(policy.isValid(new StringArrayName(["a:b"]))).toBe(false);
+  });
+
+  it("test POSIX root and maximum depth", () => {
+    expect(NamePolicy.POSIX_PATH.isValid(new StringName("/usr/bin", "/"))).toBe(true);
+    expect(NamePolicy.POSIX_PATH.isValid(new StringName("/usr//bin", "/"))).toBe(false);
+
+    let shallow = new NamePolicy("shallow", { maxDepth: 2 });
+    let n: Name = new LinkedName(["a", "b"], ".", "\\", null, shallow);
+    expect(() => n.append("c")).toThrow(NamePolicyException);
+    expect(n.getParent().append("c").asString()).toBe("a.c");
+  });
+
+  it("test linked names check appended components only", () => {
+    let policy = new NamePolicy("short", { allowedCharacters: /[a-z0-9]/, maxTotalLength: 20 });
+    let check = vi.spyOn(policy, "check");
+    let n: Name = new LinkedName([], "/", "\\", null, policy);
+    for (let i = 0; i < 5; i++) n = n.append("c" + i);
+    expect(n.asString()).toBe("c0/c1/c2/c3/c4");
+    expect(check).not.toHaveBeenCalled();
+
+    expect(() => n.append("X")).toThrow(NamePolicyException);
+    expect(n.append("abcde").asString().length).toBe(20);
+    expect(() => n.append("abcdef")).toThrow(NamePolicyException);
+    expect(() => n.concat(new StringName("a/b/c_d", "/"))).toThrow(NamePolicyException);
+  });
+
+  it("test derived names are checked", () => {
+    let n: Name = new StringName("oss.fau.de", ".", "\\", null, NamePolicy.DNS);
+    expect(() => n.append("")).toThrow(NamePolicyException);
+    expect(() => n.setComponent(0, "o_s")).toThrow(NamePolicyException);
+    expect(() => n.insertRaw(1, "a.b")).toThrow(NamePolicyException);
+    expect(() => n.concat(new StringName("x..y"))).toThrow(NamePolicyException);
+    expect(n.append("cs").asString()).toBe("oss.fau.de.cs");
+
+    let m: Name = n.getPrefix(2).withDelimiter("/");
+    expect((m as AbstractName).getPolicy()).toBe(NamePolicy.DNS);
+    expect(() => m.append("a_b")).toThrow(NamePolicyException);
+  });
+
+  it("test builder keeps the policy", () => {
+    let b: NameBuilder = new StringName("oss.fau.de", ".", "\\", null, NamePolicy.DNS).toBuilder();
+    expect(() => b.push("a_b").build()).toThrow(NamePolicyException);
+    expect(() => new NameBuilder().push("a_b").build()).not.toThrow();
+  });
+
+  it("test invalid options", () => {
+    expect(() => new NamePolicy("bad", { maxDepth: -1 })).toThrow(IllegalArgumentException);
+    expect(() => new NamePolicy("bad", { maxComponentLength: 1.5 })).toThrow(IllegalArgumentException);
+  });
+});
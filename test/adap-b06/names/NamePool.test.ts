@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { NamePool, PooledName } from "../../../src/adap-b06/names/NamePool";
+
+describe("Interning tests", () => {
+  it("test equal names are identical", () => {
+    let pool: NamePool = new NamePool();
+    let n: Name = pool.intern(new StringName("oss.cs.fau.de"));
+    let m: Name = pool.intern(new StringArrayName(["oss", "cs", "fau", "de"]));
+    expect(n).toBe(m);
+    expect(pool.of("oss.cs.fau.de")).toBe(n);
+    expect(n.isEqual(new StringName("oss.cs.fau.de"))).toBe(true);
+    expect(n.getHashCode()).toBe(new StringName("oss.cs.fau.de").getHashCode());
+  });
+  it("test prefixes are shared", () => {
+    let pool: NamePool = new NamePool('/');
+    pool.of("usr/bin/ls");
+    pool.of("usr/bin/code");
+    expect(pool.getNoNames()).toBe(5);
+    let ls: Name = pool.of("usr/bin/ls");
+    expect(ls.getParent()).toBe(pool.of("usr/bin"));
+    expect(ls.getParent().append("code")).toBe(pool.of("usr/bin/code"));
+    expect(ls.remove(2).append("ls")).toBe(ls);
+    expect(pool.getNoNames()).toBe(5);
+  });
+  it("test canonical masking", () => {
+    let pool: NamePool = new NamePool();
+    let n: Name = pool.intern(new StringName("a^.b.c", ".", "^"));
+    expect(pool.of("a\\.b.c")).toBe(n);
+    expect(n.getComponent(0)).toBe("a\\.b");
+    expect(() => pool.intern(new StringName("a/b", '/'))).toThrow(IllegalArgumentException);
+  });
+  it("test pooled names come from their pool only", () => {
+    let pool: NamePool = new NamePool();
+    let n: Name = pool.of("a.b");
+    expect(() => new PooledName(Symbol("NamePool"), pool, null, "", ".", "\\")).toThrow(IllegalArgumentException);
+    expect(pool.of("a.b")).toBe(n);
+    expect(pool.getNoNames()).toBe(3);
+  });
+});
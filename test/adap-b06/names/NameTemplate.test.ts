@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { NameTemplate } from "../../../src/adap-b06/names/NameTemplate";
+
+describe("NameTemplate tests", () => {
+  it("test instantiate", () => {
+    let t = NameTemplate.compile("home.${user}.projects.${proj}");
+    expect(t.getVariables()).toEqual(["user", "proj"]);
+    let n: Name = t.instantiate({ user: "dirk", proj: "adap" });
+    expect(n.asDataString()).toBe("home.dirk.projects.adap");
+    expect(n.isEqual(new StringName("home.dirk.projects.adap"))).toBe(true);
+  });
+
+  it("test values are masked", () => {
+    let t = NameTemplate.compile("home.${user}.v${major}");
+    let n = t.instantiate(new Map([["user", "a.b"], ["major", "1\\2"]]));
+    expect(n.getNoComponents()).toBe(3);
+    expect(n.getComponent(1)).toBe("a\\.b");
+    expect(n.getComponent(2)).toBe("v1\\\\2");
+  });
+
+  it("test variables are validated", () => {
+    let t = NameTemplate.compile("home.${user}");
+    expect(() => t.instantiate({})).toThrow(IllegalArgumentException);
+    expect(() => t.instantiate({ user: "a", other: "b" })).toThrow(IllegalArgumentException);
+    expect(() => NameTemplate.compile("home.${1user}")).toThrow(IllegalArgumentException);
+    expect(() => NameTemplate.compile("home.${user")).toThrow(IllegalArgumentException);
+    expect(() => NameTemplate.compile("home.${a}${b}")).toThrow(IllegalArgumentException);
+  });
+
+  it("test escaped dollar is literal", () => {
+    let t = NameTemplate.compile("a.\\${x}");
+    expect(t.getVariables()).toEqual([]);
+    expect(t.instantiate({}).getComponent(1)).toBe("${x}");
+  });
+
+  it("test match extracts variables", () => {
+    let t = NameTemplate.compile("home.${user}.projects.${proj}");
+    expect(t.match(new StringName("home.dirk.projects.adap"))).toEqual(new Map([["user", "dirk"], ["proj", "adap"]]));
+    expect(t.match(new StringName("home/a.b/projects/x", "/"))?.get("user")).toBe("a.b");
+    expect(t.match(new StringName("home.dirk.files.adap"))).toBeNull();
+    expect(t.matches(new StringName("home.dirk"))).toBe(false);
+  });
+
+  it("test match round trips instantiate", () => {
+    let t = NameTemplate.compile("srv/${host}-${port}/${host}", "/");
+    let values = new Map([["host", "a/b"], ["port", "80"]]);
+    expect(t.match(t.instantiate(values))).toEqual(values);
+    expect(t.matches(new StringName("srv/x-80/y", "/"))).toBe(false);
+  });
+});
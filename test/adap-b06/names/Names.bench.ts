@@ -0,0 +1,123 @@
+import { describe, bench } from "vitest";
+
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { AbstractName } from "../../../src/adap-b06/names/AbstractName";
+import { NameBuilder } from "../../../src/adap-b06/names/NameBuilder";
+
+/**
+ * The previous StringName, as a baseline: parses and validates the whole string
+ * in its constructor, and every derived name re-joins and re-parses all components.
+ */
+class EagerStringName extends AbstractName {
+  private readonly components: ReadonlyArray<string>;
+
+  constructor(source: string, delimiter?: string, escape?: string) {
+    super(delimiter, escape);
+    const parsed: string[] = [];
+    if (source.length > 0) {
+      let current = "";
+      for (let i = 0; i < source.length; ) {
+        const ch = AbstractName.codePointAt(source, i);
+        if (ch === this.escape && i + ch.length < source.length) {
+          const next = AbstractName.codePointAt(source, i + ch.length);
+          current += ch + next;
+          i += ch.length + next.length;
+        } else if (source.startsWith(this.delimiter, i)) {
+          parsed.push(current);
+          current = "";
+          i += this.delimiter.length;
+        } else {
+          current += ch;
+          i += ch.length;
+        }
+      }
+      parsed.push(current);
+    }
+    for (const c of parsed) this.assertMaskedComponent(c);
+    this.components = Object.freeze(parsed);
+  }
+
+  public getNoComponents(): number {
+    return this.components.length;
+  }
+
+  public getComponent(i: number): string {
+    this.assertIndex(i, this.components.length);
+    return this.components[i];
+  }
+
+  public toBuilder(): NameBuilder {
+    return NameBuilder.from(this);
+  }
+
+  protected withComponents(components: string[]): Name {
+    return new EagerStringName(components.join(this.delimiter), this.delimiter, this.escape);
+  }
+
+  protected withDelimiterAndComponents(delimiter: string, components: string[]): Name {
+    return new EagerStringName(components.join(delimiter), delimiter, this.escape);
+  }
+}
+
+const DEPTH = 2000;
+
+function buildDeep(empty: Name): Name {
+  let n: Name = empty;
+  for (let i = 0; i < DEPTH; i++) n = n.append("c" + i);
+  return n;
+}
+
+describe("Appending to deep names", () => {
+  bench("StringName", () => {
+    buildDeep(new StringName("", "/"));
+  });
+  bench("StringArrayName", () => {
+    buildDeep(new StringArrayName([], "/"));
+  });
+  bench("LinkedName", () => {
+    buildDeep(new LinkedName([], "/"));
+  });
+});
+
+describe("Walking up deep names", () => {
+  const names: Name[] = [
+    buildDeep(new StringName("", "/")),
+    buildDeep(new StringArrayName([], "/")),
+    buildDeep(new LinkedName([], "/")),
+  ];
+  for (const deep of names) {
+    bench(deep.constructor.name, () => {
+      let n: Name = deep;
+      while (!n.isEmpty()) n = n.getParent();
+    });
+  }
+});
+
+describe("Chained edits on long StringNames", () => {
+  const source = Array.from({ length: DEPTH }, (_, i) => "comp\\/" + i).join("/");
+  const names: [string, Name][] = [
+    ["eager (previous StringName)", new EagerStringName(source, "/")],
+    ["lazy StringName", new StringName(source, "/")],
+  ];
+  for (const [label, long] of names) {
+    bench(label + ": construct and read last component", () => {
+      const n = long instanceof StringName ? new StringName(source, "/") : new EagerStringName(source, "/");
+      n.getComponent(n.getNoComponents() - 1);
+    });
+    bench(label + ": 200 appends", () => {
+      let n: Name = long;
+      for (let i = 0; i < 200; i++) n = n.append("x" + i);
+    });
+    bench(label + ": walk up 200 parents", () => {
+      let n: Name = long;
+      for (let i = 0; i < 200; i++) n = n.getParent();
+    });
+    bench(label + ": 200 setComponent", () => {
+      let n: Name = long;
+      for (let i = 0; i < 200; i++) n = n.setComponent(i, "y");
+    });
+  }
+});
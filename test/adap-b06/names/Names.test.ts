@@ -0,0 +1,265 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { InvalidStateException } from "../../../src/adap-b06/common/InvalidStateException";
+
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { NameNormalization } from "../../../src/adap-b06/names/NameNormalization";
+
+type NameFactory = (components: string[], delimiter?: string, escape?: string) => Name;
+
+const implementations: [string, NameFactory][] = [
+  ["StringName", (cs, d = ".", e = "\\") => cs.length === 0 ? new StringName("", d, e) : new StringName(cs.join(d), d, e)],
+  ["StringArrayName", (cs, d, e) => new StringArrayName(cs, d, e)],
+  ["LinkedName", (cs, d, e) => new LinkedName(cs, d, e)],
+];
+
+describe.each(implementations)("Behavioral tests for %s", (_, create) => {
+  it("test mutators return new names", () => {
+    let n: Name = create(["oss", "fau", "de"]);
+    expect(n.insert(1, "cs").asString()).toBe("oss.cs.fau.de");
+    expect(n.append("x").asString()).toBe("oss.fau.de.x");
+    expect(n.remove(0).asString()).toBe("fau.de");
+    expect(n.setComponent(2, "org").asString()).toBe("oss.fau.org");
+    expect(n.concat(create(["a", "b"], "/")).asString()).toBe("oss.fau.de.a.b");
+    expect(n.asString()).toBe("oss.fau.de");
+  });
+  it("test equality with other implementations", () => {
+    let n: Name = create(["oss", "c\\.s", "de"]);
+    let m: Name = new StringArrayName(["oss", "c\\.s", "de"]);
+    expect(n.isEqual(m)).toBe(true);
+    expect(m.isEqual(n)).toBe(true);
+    expect(n.getHashCode()).toBe(m.getHashCode());
+    expect(n.append("x").getHashCode()).toBe(m.append("x").getHashCode());
+    expect(n.isEqual(create(["oss", "c\\.s"]))).toBe(false);
+  });
+  it("test hierarchy", () => {
+    let n: Name = create(["", "usr", "bin", "ls"], "/");
+    expect(n.getNoComponents()).toBe(4);
+    expect(n.getComponent(2)).toBe("bin");
+    expect(n.getParent().asString()).toBe("/usr/bin");
+    expect(n.getPrefix(0).isEmpty()).toBe(true);
+    expect(n.startsWith(n.getPrefix(2))).toBe(true);
+    expect(n.getLastComponent()).toBe("ls");
+    expect(n.asDataString()).toBe(".usr.bin.ls");
+  });
+  it("test preconditions", () => {
+    let n: Name = create(["a", "b"]);
+    expect(() => n.getComponent(2)).toThrow(IllegalArgumentException);
+    expect(() => n.insert(3, "c")).toThrow(IllegalArgumentException);
+    expect(() => n.append("c.d")).toThrow(InvalidStateException);
+    expect(() => create([]).getParent()).toThrow(IllegalArgumentException);
+  });
+  it("test raw components", () => {
+    let n: Name = create(["a", "b"], "/");
+    let m = n.appendRaw("c/d").insertRaw(0, "x\\y").setRawComponent(1, "a/");
+    expect(m.getNoComponents()).toBe(4);
+    expect(m.getComponent(3)).toBe("c\\/d");
+    expect(m.getRawComponent(3)).toBe("c/d");
+    expect(m.getRawComponent(0)).toBe("x\\y");
+    expect(m.getRawComponent(1)).toBe("a/");
+    expect(new StringName(m.asDataString()).getRawComponent(3)).toBe("c/d");
+  });
+  it("test delimiter conversion", () => {
+    let n: Name = create(["", "usr", "my\\.files", "a/b"], ".");
+    let m: Name = n.withDelimiter("/");
+    expect(m.constructor).toBe(n.constructor);
+    expect(m.getDelimiterCharacter()).toBe("/");
+    expect(m.getComponent(2)).toBe("my.files");
+    expect(m.getComponent(3)).toBe("a\\/b");
+    expect(m.getRawComponent(3)).toBe("a/b");
+    expect(m.withDelimiter(".").isEqual(n)).toBe(true);
+    expect(n.withDelimiter(".")).toBe(n);
+    expect(() => n.withDelimiter("")).toThrow(IllegalArgumentException);
+    expect(() => n.withDelimiter("\\")).toThrow(IllegalArgumentException);
+  });
+  it("test equivalence ignores delimiters", () => {
+    let n: Name = create(["oss", "c/s", "de"], ".");
+    let m: Name = new StringName("oss/c\\/s/de", "/");
+    expect(n.isEqual(m)).toBe(false);
+    expect(n.isEquivalent(m)).toBe(true);
+    expect(m.isEquivalent(n)).toBe(true);
+    expect(n.getEquivalenceHashCode()).toBe(m.getEquivalenceHashCode());
+    expect(n.isEquivalent(m.getParent())).toBe(false);
+  });
+});
+
+describe("Basic immutability tests", () => {
+  it("test append returns new name", () => {
+    let n: Name = new StringName("oss.cs.fau");
+    let m: Name = n.append("de");
+    expect(n.asString()).toBe("oss.cs.fau");
+    expect(m.asString()).toBe("oss.cs.fau.de");
+  });
+  it("test StringName and StringArrayName are equal", () => {
+    let n: Name = new StringName("oss.cs.fau.de");
+    let m: Name = new StringArrayName(["oss", "cs", "fau", "de"]);
+    expect(n.isEqual(m)).toBe(true);
+    expect(n.getHashCode()).toBe(m.getHashCode());
+  });
+});
+
+describe("Multi-character delimiter tests", () => {
+  it("test parsing and printing", () => {
+    let n: Name = new StringName("a::b::c", "::");
+    expect(n.getNoComponents()).toBe(3);
+    expect(n.getDelimiterCharacter()).toBe("::");
+    expect(n.asString()).toBe("a::b::c");
+    expect(n.asString("/")).toBe("a/b/c");
+    expect(n.asDataString()).toBe("a.b.c");
+  });
+  it("test masked delimiter", () => {
+    let n: Name = new StringName("a\\::b::c", "::");
+    expect(n.getNoComponents()).toBe(2);
+    expect(n.asString("/")).toBe("a::b/c");
+    expect(n.isEqual(new StringArrayName(["a\\::b", "c"], "::"))).toBe(true);
+    expect(() => n.append("x::y")).toThrow(InvalidStateException);
+  });
+  it("test overlapping delimiter at component boundary", () => {
+    expect(() => new StringArrayName(["xa", "b"], "aa")).toThrow(InvalidStateException);
+    let n: Name = new StringArrayName(["x\\a", "b"], "aa");
+    let m: Name = new StringName("x\\aaab", "aa");
+    expect(m.getNoComponents()).toBe(2);
+    expect(n.isEqual(m)).toBe(true);
+  });
+});
+
+describe("Escape character tests", () => {
+  it("test custom escape character", () => {
+    let n: Name = new StringName("a^.b.c", ".", "^");
+    expect(n.getEscapeCharacter()).toBe("^");
+    expect(n.getNoComponents()).toBe(2);
+    expect(n.asString()).toBe("a.b.c");
+    expect(n.asDataString()).toBe("a\\.b.c");
+  });
+  it("test equality across escape characters", () => {
+    let n: Name = new StringName("a^.b.c\\d", ".", "^");
+    let m: Name = new StringArrayName(["a\\.b", "c\\\\d"]);
+    expect(n.isEqual(m)).toBe(true);
+    expect(m.isEqual(n)).toBe(true);
+    expect(n.getHashCode()).toBe(m.getHashCode());
+    expect(n.concat(m).getComponent(2)).toBe("a^.b");
+  });
+  it("test illegal escape character", () => {
+    expect(() => new StringName("a.b", ".", "")).toThrow(IllegalArgumentException);
+    expect(() => new StringName("a.b", "^^", "^")).toThrow(IllegalArgumentException);
+  });
+});
+
+describe("Hierarchy tests", () => {
+  it("test prefix and suffix", () => {
+    let n: Name = new StringName("oss.cs.fau.de");
+    expect(n.startsWith(new StringName("oss.cs"))).toBe(true);
+    expect(n.startsWith(new StringArrayName(["cs"]))).toBe(false);
+    expect(n.endsWith(new StringName("fau/de", '/'))).toBe(true);
+    expect(n.getPrefix(2).asString()).toBe("oss.cs");
+    expect(n.getSuffix(2).asString()).toBe("fau.de");
+    expect(n.getParent().asString()).toBe("oss.cs.fau");
+    expect(n.getLastComponent()).toBe("de");
+    expect(() => n.getPrefix(5)).toThrow(IllegalArgumentException);
+    expect(() => new StringName("").getParent()).toThrow(IllegalArgumentException);
+  });
+  it("test normalize", () => {
+    let n: Name = new StringName("/usr/./bin/../lib/x", '/');
+    expect(n.normalize().asString()).toBe("/usr/lib/x");
+    expect(new StringName("/../a", '/').normalize().asString()).toBe("/a");
+    expect(new StringName("a/../../b", '/').normalize().asString()).toBe("../b");
+  });
+  it("test relativize and resolve", () => {
+    let from: Name = new StringName("/home/riehle/projects", '/');
+    let to: Name = new StringName("/home/riehle/docs/a.txt", '/');
+    let r: Name = from.relativize(to);
+    expect(r.asString()).toBe("../docs/a.txt");
+    expect(from.resolve(r).isEqual(to)).toBe(true);
+    expect(from.resolve(new StringName("./x", '/')).asString()).toBe("/home/riehle/projects/x");
+    expect(from.resolve(new StringName("/usr/./bin", '/')).asString()).toBe("/usr/bin");
+    expect(new StringName("a/b", '/').resolve(new StringName("/x", '/')).asString()).toBe("/x");
+  });
+});
+
+describe("LinkedName structure tests", () => {
+  it("test deep names", () => {
+    let n: Name = new LinkedName([], '/');
+    for (let i = 0; i < 5000; i++) n = n.append("c" + i);
+    expect(n.getNoComponents()).toBe(5000);
+    for (const i of [0, 1, 2, 1023, 1024, 2500, 4999]) {
+      expect(n.getComponent(i)).toBe("c" + i);
+    }
+    expect(n.getPrefix(1234).getLastComponent()).toBe("c1233");
+    expect(n.getParent().getParent().getNoComponents()).toBe(4998);
+  });
+  it("test shared prefixes", () => {
+    let n: Name = new LinkedName(["a", "b", "c"]);
+    let m: Name = n.getParent().append("c");
+    expect(m.isEqual(n)).toBe(true);
+    expect(n.startsWith(n.getPrefix(2))).toBe(true);
+    expect(n.setComponent(1, "x").asString()).toBe("a.x.c");
+    expect(n.remove(1).getHashCode()).toBe(new StringName("a.c").getHashCode());
+  });
+});
+
+describe("StringName indexing tests", () => {
+  it("test derived names keep escapes and empty components", () => {
+    let n: Name = new StringName("/usr//lo\\/cal\\\\/bin", '/');
+    expect(n.getNoComponents()).toBe(5);
+    expect(n.getComponent(2)).toBe("");
+    expect(n.getComponent(3)).toBe("lo\\/cal\\\\");
+    expect(n.getPrefix(4).getLastComponent()).toBe("lo\\/cal\\\\");
+    expect(n.getParent().append("sbin").asString()).toBe("/usr//lo/cal\\/sbin");
+    expect(n.getPrefix(1).isEmpty()).toBe(true);
+    expect(n.getPrefix(0).append("").isEmpty()).toBe(true);
+  });
+  it("test chained appends", () => {
+    let n: Name = new StringName("", "::");
+    for (let i = 0; i < 3000; i++) n = n.append("c" + i);
+    expect(n.getNoComponents()).toBe(3000);
+    expect(n.getComponent(2999)).toBe("c2999");
+    expect(n.isEqual(new StringName(n.asString("::"), "::"))).toBe(true);
+  });
+  it("test invalid source is rejected eagerly", () => {
+    expect(() => new StringName("a.b\\")).toThrow(InvalidStateException);
+    expect(() => new StringName("a::xa", "aa")).toThrow(InvalidStateException);
+  });
+});
+
+describe("Unicode tests", () => {
+  it("test astral escape character", () => {
+    let n: Name = new StringName("a😀.b.c", ".", "😀");
+    expect(n.getNoComponents()).toBe(2);
+    expect(n.asString()).toBe("a.b.c");
+    expect(n.append("x😀😀y").asString("/")).toBe("a.b/c/x😀y");
+    expect(() => new StringName("a😀", ".", "😀")).toThrow(InvalidStateException);
+  });
+  it("test surrogate pairs are never split", () => {
+    let n: Name = new StringArrayName(["\\😀", "😀\\.x"]);
+    expect(n.asString("/")).toBe("😀/😀.x");
+    expect(n.isEqual(new StringName("\\😀.😀\\.x"))).toBe(true);
+  });
+});
+
+describe("Normalization tests", () => {
+  const composed = "caf\u00e9";
+  const decomposed = "cafe\u0301";
+
+  it("test canonical equivalence", () => {
+    expect(new StringName(composed).isEqual(new StringName(decomposed))).toBe(false);
+    let n: Name = new StringName(composed, ".", "\\", NameNormalization.NFC);
+    let m: Name = new StringArrayName([decomposed], ".", "\\", NameNormalization.NFC);
+    expect(n.isEqual(m)).toBe(true);
+    expect(n.getHashCode()).toBe(m.getHashCode());
+    expect(m.asDataString()).toBe(composed);
+  });
+  it("test case folding", () => {
+    let n: Name = new LinkedName(["WWW", "Straße"], ".", "\\", NameNormalization.NFC_CASE_FOLDED);
+    expect(n.asString()).toBe("www.strasse");
+    expect(n.append("DE").isEqual(new StringName("www.strasse.de"))).toBe(true);
+  });
+  it("test compatibility normalization re-masks delimiters", () => {
+    let n: Name = new StringName("a\uff0eb.c", ".", "\\", NameNormalization.NFKC);
+    expect(n.getNoComponents()).toBe(2);
+    expect(n.getComponent(0)).toBe("a\\.b");
+  });
+});
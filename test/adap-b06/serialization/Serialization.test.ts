@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+
+import { IllegalArgumentException } from "../../../src/adap-b06/common/IllegalArgumentException";
+import { Name } from "../../../src/adap-b06/names/Name";
+import { StringName } from "../../../src/adap-b06/names/StringName";
+import { StringArrayName } from "../../../src/adap-b06/names/StringArrayName";
+import { LinkedName } from "../../../src/adap-b06/names/LinkedName";
+import { NameNormalization } from "../../../src/adap-b06/names/NameNormalization";
+import { NamePolicy, NamePolicyException } from "../../../src/adap-b06/names/NamePolicy";
+import { NamePool, PooledName } from "../../../src/adap-b06/names/NamePool";
+import { CartesianCoordinate } from "../../../src/adap-b06/coordinates/CartesianCoordinate";
+import { PolarCoordinate } from "../../../src/adap-b06/coordinates/PolarCoordinate";
+import { QuantityUnit, SIUnit } from "../../../src/adap-b06/examples/QuantityUnit";
+import { Range, RangeBound } from "../../../src/adap-b06/examples/Ranges";
+import { PostalAddress } from "../../../src/adap-b06/examples/PostalAddress";
+
+import { JsonSerializer } from "../../../src/adap-b06/serialization/JsonSerializer";
+import { BinarySerializer } from "../../../src/adap-b06/serialization/BinarySerializer";
+import { createDefaultRegistry } from "../../../src/adap-b06/serialization/DefaultSerializers";
+import { Serializer } from "../../../src/adap-b06/serialization/Serializer";
+
+describe.each([
+  ["JSON", (o: Object) => { let s = new JsonSerializer(); return s.fromJSON(s.toJSON(o)); }],
+  ["binary", (o: Object) => { let s = new BinarySerializer(); return s.decode(s.encode(o)); }],
+])("%s round trip tests", (_label, roundTrip) => {
+  it("test names keep their class and syntax", () => {
+    let n: Name = new StringName("oss#cs#fau\\#de", "#");
+    let m = roundTrip(n) as Name;
+    expect(m).toBeInstanceOf(StringName);
+    expect(m.isEqual(n)).toBe(true);
+    expect(m.getComponent(2)).toBe("fau\\#de");
+
+    let a = roundTrip(new StringArrayName(["", "usr", "bin"], "/")) as Name;
+    expect(a).toBeInstanceOf(StringArrayName);
+    expect(a.asString()).toBe("/usr/bin");
+
+    let l = roundTrip(new LinkedName(["a", "b"], "::", "%")) as Name;
+    expect(l).toBeInstanceOf(LinkedName);
+    expect(l.getDelimiterCharacter()).toBe("::");
+    expect(l.getEscapeCharacter()).toBe("%");
+  });
+
+  it("test normalization survives", () => {
+    let n = new StringArrayName(["ABC"], ".", "\\", NameNormalization.NFC_CASE_FOLDED);
+    let m = roundTrip(n) as StringArrayName;
+    expect(m.getNormalization()?.isEqual(NameNormalization.NFC_CASE_FOLDED)).toBe(true);
+    expect(m.getComponent(0)).toBe("abc");
+  });
+
+  it("test policies survive", () => {
+    let n = new StringName("/usr/bin", "/", "\\", null, NamePolicy.POSIX_PATH);
+    let m = roundTrip(n) as StringName;
+    expect(m.isEqual(n)).toBe(true);
+    expect(m.getPolicy()).toBe(NamePolicy.POSIX_PATH);
+
+    let custom = new NamePolicy("custom", { allowedCharacters: /[a-z]/i, maxDepth: 3, reservedWords: ["tmp"], allowEmptyComponents: false });
+    let l = roundTrip(new LinkedName(["a", "B"], ".", "\\", null, custom)) as LinkedName;
+    expect(l.getPolicy()?.getName()).toBe("custom");
+    expect(l.getPolicy()?.getOptions()).toEqual(custom.getOptions());
+    expect(() => l.append("tmp")).toThrow(NamePolicyException);
+    expect(() => l.append("a1")).toThrow(NamePolicyException);
+    expect(l.append("c").asString()).toBe("a.B.c");
+  });
+
+  it("test pooled names", () => {
+    let pool = new NamePool("/");
+    let n: Name = pool.of("usr/bin");
+    let m = roundTrip(n) as Name;
+    expect(m).toBeInstanceOf(PooledName);
+    expect(m.isEqual(n)).toBe(true);
+    expect(m.getDelimiterCharacter()).toBe("/");
+  });
+
+  it("test coordinates keep their representation", () => {
+    let c = roundTrip(new CartesianCoordinate(3, -4)) as CartesianCoordinate;
+    expect(c).toBeInstanceOf(CartesianCoordinate);
+    expect(c.getX()).toBe(3);
+    expect(c.getY()).toBe(-4);
+
+    let p = roundTrip(new PolarCoordinate(2, 0.5)) as PolarCoordinate;
+    expect(p).toBeInstanceOf(PolarCoordinate);
+    expect(p.getR()).toBe(2);
+    expect(p.getPhi()).toBe(0.5);
+  });
+
+  it("test nested value objects", () => {
+    let q = roundTrip(new QuantityUnit(9.81, new SIUnit([1, 0, -2, 0, 0, 0, 0]))) as QuantityUnit;
+    expect(q.getValue()).toBe(9.81);
+    expect(q.getUnit().getExponents()).toEqual([1, 0, -2, 0, 0, 0, 0]);
+
+    let r = roundTrip(new Range<unknown>(new RangeBound<unknown>(new StringName("a.b"), true), new RangeBound<unknown>(10, false))) as Range<unknown>;
+    expect((r.getLowerBound().getValue() as Name).asString()).toBe("a.b");
+    expect(r.getLowerBound().isInclusive()).toBe(true);
+    expect(r.getUpperBound().getValue()).toBe(10);
+
+    let a = roundTrip(new PostalAddress("Martensstr. 3", "Erlangen", "Bayern", "91058", "DE")) as PostalAddress;
+    expect(a.getCity()).toBe("Erlangen");
+    expect(a.getPostalCode()).toBe("91058");
+  });
+});
+
+describe("Serialization error tests", () => {
+  it("test unknown types and versions are rejected", () => {
+    let s = new JsonSerializer();
+    expect(() => s.toJSON(new Date())).toThrow(IllegalArgumentException);
+    expect(() => s.fromJSON('{"type":"Nope","version":1,"data":null}')).toThrow(IllegalArgumentException);
+    expect(() => s.fromJSON('{"type":"SIUnit","version":2,"data":{"exponents":[0,0,0,0,0,0,0]}}')).toThrow(IllegalArgumentException);
+    expect(() => s.fromJSON('{"type":"SIUnit","version":1,"data":{"exponents":"m"}}')).toThrow(IllegalArgumentException);
+    let v1 = s.fromJSON('{"type":"StringName","version":1,"data":{"components":["a","b"],"delimiter":".","escape":"\\\\","normalization":null}}') as StringName;
+    expect(v1.asString()).toBe("a.b");
+    expect(v1.getPolicy()).toBeNull();
+  });
+
+  it("test malformed names are rejected", () => {
+    let s = new JsonSerializer();
+    let name = (components: string, policy: string) =>
+      '{"type":"StringName","version":2,"data":{"components":' + components + ',"delimiter":".","escape":"\\\\","normalization":null,"policy":' + policy + '}}';
+    expect((s.fromJSON(name('["a\\\\.b","c"]', "null")) as Name).getNoComponents()).toBe(2);
+    expect(() => s.fromJSON(name('["a.b","c"]', "null"))).toThrow(IllegalArgumentException);
+    expect(() => s.fromJSON(name('["a\\\\"]', "null"))).toThrow(IllegalArgumentException);
+    let policy = '{"name":"custom","options":{"allowedCharacters":{"source":"[a-","flags":""}}}';
+    expect(() => s.fromJSON(name('["a"]', policy))).toThrow(IllegalArgumentException);
+  });
+
+  it("test integers round-trip at the limits", () => {
+    let s = new BinarySerializer();
+    for (let n of [Number.MAX_SAFE_INTEGER, -Number.MAX_SAFE_INTEGER, 2 ** 52, 2 ** 52 - 1, -(2 ** 52), -(2 ** 52) - 1, 0, -1]) {
+      let c = s.decode(s.encode(new CartesianCoordinate(n, -n))) as CartesianCoordinate;
+      expect(c.getX()).toBe(n);
+      expect(c.getY()).toBe(-n);
+    }
+  });
+
+  it("test malformed binary input is rejected", () => {
+    let s = new BinarySerializer();
+    let bytes = s.encode(new StringName("a.b"));
+    expect(() => s.decode(bytes.slice(1))).toThrow(IllegalArgumentException);
+    expect(() => s.decode(bytes.slice(0, bytes.length - 1))).toThrow(IllegalArgumentException);
+  });
+
+  it("test registry rejects duplicates", () => {
+    let registry = createDefaultRegistry();
+    expect(() => registry.register(SIUnit, registry.getSerializerByName("SIUnit") as Serializer<SIUnit>)).toThrow(IllegalArgumentException);
+  });
+});
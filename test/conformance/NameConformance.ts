@@ -0,0 +1,262 @@
+import { describe, it, expect } from "vitest";
+
+import { DEFAULT_SYNTAX, NameCase, NameGenerator, NameSyntax } from "./NameGenerator";
+
+/**
+ * The part of the Name interface all homework stages share. Operations may change the
+ * name (b01-b05) or return a new one (b06); equality and concat are optional, as the
+ * early stages don't have them.
+ */
+export interface ConformantName {
+  getNoComponents(): number;
+  getComponent(i: number): string;
+  asString(delimiter?: string): string;
+  asDataString(): string;
+  setComponent(i: number, c: string): unknown;
+  insert(i: number, c: string): unknown;
+  append(c: string): unknown;
+  remove(i: number): unknown;
+  concat?(other: Object): unknown;
+  isEqual?(other: Object): boolean;
+  getHashCode?(): number;
+}
+
+/**
+ * A Name implementation plugged into the conformance suite.
+ */
+export interface NameImplementation<N extends ConformantName = ConformantName> {
+  label: string;
+
+  /** Returns a name of the given masked components */
+  create(masked: string[], delimiter: string, escape: string): N;
+
+  /** Returns the name of a masked name string; defaults to splitting it and calling create() */
+  parse?(source: string, delimiter: string, escape: string): N;
+
+  /** Supported delimiters and escape characters (default: single-character delimiters, backslash) */
+  syntax?: NameSyntax;
+
+  /** Whether operations return a new name and leave this one unchanged */
+  immutable: boolean;
+}
+
+export interface ConformanceOptions {
+  /** Number of random cases per property (default: 100) */
+  runs?: number;
+
+  /** Seed of the random generator; failure messages name the seed and case */
+  seed?: number;
+}
+
+interface Operation {
+  label: string;
+  apply(n: ConformantName, g: NameGenerator, c: NameCase, impl: NameImplementation): { result: unknown; expected: string[] } | null;
+}
+
+// Operations pick their arguments from g and return the masked components they should yield
+const OPERATIONS: Operation[] = [
+  {
+    label: "append",
+    apply: (n, g, c) => {
+      const m = randomMasked(g, c);
+      return { result: n.append(m), expected: [...c.masked, m] };
+    },
+  },
+  {
+    label: "insert",
+    apply: (n, g, c) => {
+      const i = g.nextInt(c.masked.length + 1);
+      const m = randomMasked(g, c);
+      return { result: n.insert(i, m), expected: [...c.masked.slice(0, i), m, ...c.masked.slice(i)] };
+    },
+  },
+  {
+    label: "setComponent",
+    apply: (n, g, c) => {
+      if (c.masked.length === 0) return null;
+      const i = g.nextInt(c.masked.length);
+      const m = randomMasked(g, c);
+      return { result: n.setComponent(i, m), expected: c.masked.map((x, j) => (j === i ? m : x)) };
+    },
+  },
+  {
+    label: "remove",
+    apply: (n, g, c) => {
+      if (c.masked.length === 0) return null;
+      const i = g.nextInt(c.masked.length);
+      return { result: n.remove(i), expected: c.masked.filter((x, j) => j !== i) };
+    },
+  },
+  {
+    label: "concat",
+    apply: (n, g, c, impl) => {
+      if (typeof n.concat !== "function") return null;
+      const other = g.nextCase(3, { delimiter: c.delimiter, escape: c.escape });
+      // appending a leading empty component to the empty name passes through a single empty component
+      if (c.masked.length === 0 && other.masked[0] === "") return null;
+      return { result: n.concat(impl.create(other.masked, c.delimiter, c.escape)), expected: [...c.masked, ...other.masked] };
+    },
+  },
+];
+
+/**
+ * Registers property-based tests checking that impl behaves like a Name:
+ * construction and parsing agree, asString() and asDataString() round-trip,
+ * isEqual() and getHashCode() are consistent, and operations either change the
+ * name as expected or, for immutable implementations, leave it untouched.
+ */
+export function describeNameConformance<N extends ConformantName>(impl: NameImplementation<N>, options: ConformanceOptions = {}): void {
+  const runs = options.runs ?? 100;
+  const seed = options.seed ?? 0x5eed;
+
+  describe(impl.label + " conformance", () => {
+    it("create and parse yield the generated components", () => {
+      forEachCase(impl, seed, runs, (c, message) => {
+        const n = impl.create(c.masked, c.delimiter, c.escape);
+        expect(componentsOf(n), message).toEqual(c.masked);
+        expect(componentsOf(parse(impl, c.masked.join(c.delimiter), c.delimiter, c.escape)), message).toEqual(c.masked);
+        expect(n.asString(), message).toBe(c.raw.join(c.delimiter));
+      });
+    });
+
+    it("asDataString parses back into the same components", () => {
+      forEachCase(impl, seed, runs, (c, message) => {
+        const data = impl.create(c.masked, c.delimiter, c.escape).asDataString();
+        expect(data, message).toBe(c.raw.map((r) => NameGenerator.mask(r, ".", "\\")).join("."));
+        expect(rawComponentsOf(parse(impl, data, ".", "\\"), "\\"), message).toEqual(c.raw);
+      });
+    });
+
+    it.skipIf(!hasEquality(impl))("isEqual and getHashCode are consistent", () => {
+      const g = new NameGenerator(seed + 1, impl.syntax ?? DEFAULT_SYNTAX);
+      forEachCase(impl, seed, runs, (c, message) => {
+        const n = impl.create(c.masked, c.delimiter, c.escape) as Required<ConformantName>;
+        const same = parse(impl, c.masked.join(c.delimiter), c.delimiter, c.escape) as Required<ConformantName>;
+        expect(n.isEqual(n), message).toBe(true);
+        expect(n.isEqual(same) && same.isEqual(n), message).toBe(true);
+        expect(n.getHashCode(), message).toBe(same.getHashCode());
+
+        const o = g.nextCase(6, { delimiter: c.delimiter, escape: c.escape });
+        const other = impl.create(o.masked, o.delimiter, o.escape) as Required<ConformantName>;
+        const equal = JSON.stringify(o.raw) === JSON.stringify(c.raw);
+        expect(n.isEqual(other), message + " vs " + JSON.stringify(o.raw)).toBe(equal);
+        expect(other.isEqual(n), message + " vs " + JSON.stringify(o.raw)).toBe(equal);
+      });
+    });
+
+    it(impl.immutable ? "operations return new names and keep this one unchanged" : "operations change the name as expected", () => {
+      const g = new NameGenerator(seed + 2, impl.syntax ?? DEFAULT_SYNTAX);
+      forEachCase(impl, seed, runs, (c, message) => {
+        for (const op of OPERATIONS) {
+          const n = impl.create(c.masked, c.delimiter, c.escape);
+          const before = n.asDataString();
+          const applied = op.apply(n, g, c, impl);
+          if (applied === null || isSingleEmpty(applied.expected)) continue;
+
+          if (impl.immutable) {
+            expect(componentsOf(n), message + " " + op.label).toEqual(c.masked);
+            expect(n.asDataString(), message + " " + op.label).toBe(before);
+            expect(componentsOf(applied.result as ConformantName), message + " " + op.label).toEqual(applied.expected);
+          } else {
+            expect(componentsOf(n), message + " " + op.label).toEqual(applied.expected);
+          }
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Registers property-based tests checking that all impls agree on the same random names:
+ * same components, string representations and operation results, and names of different
+ * implementations are equal to each other with the same hash code.
+ */
+export function describeNameParity(label: string, impls: NameImplementation[], options: ConformanceOptions = {}): void {
+  const runs = options.runs ?? 100;
+  const seed = options.seed ?? 0x5eed;
+  const reference = impls[0];
+
+  describe(label + " parity", () => {
+    it("representations agree", () => {
+      forEachCase(reference, seed, runs, (c, message) => {
+        const names = impls.map((impl) => impl.create(c.masked, c.delimiter, c.escape));
+        for (let i = 1; i < names.length; i++) {
+          const m = message + " " + impls[i].label;
+          expect(componentsOf(names[i]), m).toEqual(componentsOf(names[0]));
+          expect(names[i].asString(), m).toBe(names[0].asString());
+          expect(names[i].asDataString(), m).toBe(names[0].asDataString());
+        }
+      });
+    });
+
+    it.skipIf(!impls.every((impl) => hasEquality(impl)))("names of different implementations are equal", () => {
+      forEachCase(reference, seed, runs, (c, message) => {
+        const names = impls.map((impl) => impl.create(c.masked, c.delimiter, c.escape) as Required<ConformantName>);
+        for (let i = 1; i < names.length; i++) {
+          const m = message + " " + impls[i].label;
+          expect(names[0].isEqual(names[i]) && names[i].isEqual(names[0]), m).toBe(true);
+          expect(names[i].getHashCode(), m).toBe(names[0].getHashCode());
+        }
+      });
+    });
+
+    it("operations agree", () => {
+      forEachCase(reference, seed, runs, (c, message, run) => {
+        for (const op of OPERATIONS) {
+          const results = impls.map((impl) => {
+            // same seed for all implementations, so that all get the same arguments
+            const g = new NameGenerator(seed + run, impl.syntax ?? DEFAULT_SYNTAX);
+            const n = impl.create(c.masked, c.delimiter, c.escape);
+            const applied = op.apply(n, g, c, impl);
+            if (applied === null || isSingleEmpty(applied.expected)) return null;
+            return componentsOf(impl.immutable ? applied.result as ConformantName : n);
+          });
+          for (let i = 1; i < results.length; i++) {
+            expect(results[i], message + " " + op.label + " " + impls[i].label).toEqual(results[0]);
+          }
+        }
+      });
+    });
+  });
+}
+
+// ---------- helpers ----------
+
+function forEachCase(impl: NameImplementation, seed: number, runs: number, check: (c: NameCase, message: string, run: number) => void): void {
+  const g = new NameGenerator(seed, impl.syntax ?? DEFAULT_SYNTAX);
+  for (let run = 0; run < runs; run++) {
+    const c = g.nextCase();
+    check(c, "seed " + seed + ", run " + run + ", case " + JSON.stringify(c), run);
+  }
+}
+
+function parse<N extends ConformantName>(impl: NameImplementation<N>, source: string, delimiter: string, escape: string): N {
+  if (impl.parse !== undefined) return impl.parse(source, delimiter, escape);
+  return impl.create(NameGenerator.split(source, delimiter, escape), delimiter, escape);
+}
+
+function hasEquality(impl: NameImplementation): boolean {
+  const sample = impl.create([], (impl.syntax ?? DEFAULT_SYNTAX).delimiters[0], (impl.syntax ?? DEFAULT_SYNTAX).escapes[0]);
+  return typeof sample.isEqual === "function" && typeof sample.getHashCode === "function";
+}
+
+function randomMasked(g: NameGenerator, c: NameCase): string {
+  return NameGenerator.mask(g.nextRawComponent(c.delimiter, c.escape), c.delimiter, c.escape);
+}
+
+/** A single empty component reads as the empty name in StringName, so results like that are skipped */
+function isSingleEmpty(masked: string[]): boolean {
+  return masked.length === 1 && masked[0] === "";
+}
+
+function componentsOf(n: ConformantName): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < n.getNoComponents(); i++) {
+    result.push(n.getComponent(i));
+  }
+  return result;
+}
+
+function rawComponentsOf(n: ConformantName, escape: string): string[] {
+  return componentsOf(n).map((c) => NameGenerator.unmask(c, escape));
+}
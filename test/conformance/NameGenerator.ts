@@ -0,0 +1,139 @@
+/**
+ * Name syntax an implementation supports: candidate delimiters and escape characters.
+ * Older homework stages only support single-character delimiters and the backslash.
+ */
+export interface NameSyntax {
+  delimiters: string[];
+  escapes: string[];
+}
+
+/** One random test case: masked and unmasked components for a delimiter and escape */
+export interface NameCase {
+  delimiter: string;
+  escape: string;
+  raw: string[];
+  masked: string[];
+}
+
+export const DEFAULT_SYNTAX: NameSyntax = { delimiters: [".", "/", "#"], escapes: ["\\"] };
+
+/**
+ * Generates random name components from a seed, so that a failing case can be reproduced.
+ *
+ * Components are drawn from letters, the delimiter and escape characters of the syntax
+ * (to exercise masking), and some non-ASCII characters including a surrogate pair.
+ * Masking is implemented here independently of any stage, so it serves as the reference.
+ */
+export class NameGenerator {
+  private static readonly LETTERS = ["a", "b", "x", "Z", "0", " ", "-", "é", "😀"];
+
+  protected readonly syntax: NameSyntax;
+  protected readonly seed: number;
+  private state: number;
+
+  constructor(seed: number, syntax: NameSyntax = DEFAULT_SYNTAX) {
+    this.seed = seed;
+    this.state = seed >>> 0;
+    this.syntax = syntax;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /** Returns an integer in [0, bound) (mulberry32) */
+  public nextInt(bound: number): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (((t ^ (t >>> 14)) >>> 0) % bound);
+  }
+
+  public pick<T>(choices: T[]): T {
+    return choices[this.nextInt(choices.length)];
+  }
+
+  /**
+   * Returns a random name of up to maxComponents components. A single empty component
+   * is never generated, as its data string "" can't be told apart from the empty name.
+   */
+  public nextCase(maxComponents: number = 6, syntax: Partial<NameCase> = {}): NameCase {
+    const delimiter = syntax.delimiter ?? this.pick(this.syntax.delimiters);
+    const escape = syntax.escape ?? this.pick(this.syntax.escapes);
+    const count = this.nextInt(maxComponents + 1);
+    const raw: string[] = [];
+    for (let i = 0; i < count; i++) {
+      raw.push(this.nextRawComponent(delimiter, escape));
+    }
+    if (raw.length === 1 && raw[0] === "") raw[0] = "a";
+    return { delimiter: delimiter, escape: escape, raw: raw, masked: raw.map((r) => NameGenerator.mask(r, delimiter, escape)) };
+  }
+
+  public nextRawComponent(delimiter: string, escape: string): string {
+    const alphabet = [...NameGenerator.LETTERS, ...Array.from(delimiter), escape];
+    const length = this.nextInt(5);
+    let result = "";
+    for (let i = 0; i < length; i++) {
+      result += this.pick(alphabet);
+    }
+    return result;
+  }
+
+  // ---------- reference masking ----------
+
+  /**
+   * Escapes the escape character and the first character of every delimiter, including
+   * a delimiter that would only form across the end of the component.
+   */
+  public static mask(raw: string, delimiter: string, escape: string): string {
+    let result = "";
+    for (let i = 0; i < raw.length; ) {
+      const ch = String.fromCodePoint(raw.codePointAt(i) as number);
+      const rest = raw.substring(i);
+      const startsDelimiter = rest.startsWith(delimiter) || (rest.length < delimiter.length && (rest + delimiter).startsWith(delimiter));
+      if (ch === escape || startsDelimiter) result += escape;
+      result += ch;
+      i += ch.length;
+    }
+    return result;
+  }
+
+  public static unmask(masked: string, escape: string): string {
+    let result = "";
+    let escaped = false;
+    for (const ch of masked) {
+      if (!escaped && ch === escape) {
+        escaped = true;
+        continue;
+      }
+      result += ch;
+      escaped = false;
+    }
+    return result;
+  }
+
+  /** Splits a masked name string at unescaped delimiters; "" has no components */
+  public static split(source: string, delimiter: string, escape: string): string[] {
+    if (source.length === 0) return [];
+    const result: string[] = [];
+    let current = "";
+    for (let i = 0; i < source.length; ) {
+      const ch = String.fromCodePoint(source.codePointAt(i) as number);
+      if (ch === escape && i + ch.length < source.length) {
+        const next = String.fromCodePoint(source.codePointAt(i + ch.length) as number);
+        current += ch + next;
+        i += ch.length + next.length;
+      } else if (source.startsWith(delimiter, i)) {
+        result.push(current);
+        current = "";
+        i += delimiter.length;
+      } else {
+        current += ch;
+        i += ch.length;
+      }
+    }
+    result.push(current);
+    return result;
+  }
+}